@@ -1,10 +1,37 @@
-import React, { useCallback, useState, useEffect } from 'react';
-import { Task, TaskType, TimerState, ViewMode } from './types';
-import useLocalStorage from './hooks/useLocalStorage';
+import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { AppSettings, Connections, ConnectionType, ExportFormat, MindmapTransform, PomodoroPhase, PomodoroSettings, Recurrence, RecurrenceFrequency, Priority, TagFilter, Task, TaskFilter, TaskType, TimerState, ViewMode, Workspace, WorkspaceState } from './types';
+import usePersistentState from './hooks/usePersistentState';
 import useSound from './hooks/useSound';
+import useUndoHistory from './hooks/useUndoHistory';
 import Header from './components/Header';
 import TaskInput from './components/TaskInput';
 import TaskList from './components/TaskList';
+import ImportDialog from './components/ImportDialog';
+import TimeReport from './components/TimeReport';
+import SearchBar from './components/SearchBar';
+import SelectionBar from './components/SelectionBar';
+import TemplateLibrary from './components/TemplateLibrary';
+import TrashPanel from './components/TrashPanel';
+import ArchivePanel from './components/ArchivePanel';
+import NotesPanel from './components/NotesPanel';
+import { collectInheritedRecurrence, resetRecurringHabits } from './services/recurrence';
+import { updateCompletionLog } from './services/history';
+import { getNextTimerDeadline, pauseRunningTimers, pauseTimer, startTimer, syncTimers } from './services/timer';
+import { enterPomodoro } from './services/pomodoro';
+import { createToneUrl } from './services/sound';
+import { appendSessions, computeTrackedTime, createSession } from './services/timeLog';
+import { BackupData, createBackup, mergeBackup, mergeWorkspaces, parseBackup } from './services/backup';
+import { downloadFile, fileDateStamp } from './services/download';
+import { isQuotaError, StorageBackend, StoredValues } from './services/storage';
+import { markdownToTasks, opmlToTasks, tasksToMarkdown, tasksToOpml } from './services/outline';
+import { EMPTY_FILTER, expandAncestors, findMatches, isFilterActive } from './services/search';
+import { collectInheritedTags, collectTags, EMPTY_TAG_FILTER, filterTaskTree } from './services/tags';
+import { collectBlockedIds, findBlockers, findSubtreeBlockers, wouldCreateCycle } from './services/dependencies';
+import { findConnection } from './services/connections';
+import { ClipboardData, cloneWithFreshIds, copySubtrees, readClipboard, writeClipboard } from './services/clipboard';
+import { createTemplate, instantiateTemplate } from './services/templates';
+import { createTrashEntries, purgeTrash, restoreFromTrash } from './services/trash';
+import { archiveCompleted, collectArchived, hasCompletedTasks, hideArchived } from './services/archive';
 
 const sampleData: Task[] = [
     {
@@ -13,6 +40,7 @@ const sampleData: Task[] = [
       type: TaskType.Habit,
       completed: false,
       collapsed: false,
+      recurrence: { frequency: RecurrenceFrequency.Daily },
       children: [
         { id: "sample-2", title: 'Hydrate (500ml)', type: TaskType.Habit, completed: false, collapsed: false, children: [] },
         { id: "sample-3", title: 'Meditation (10m)', type: TaskType.Habit, completed: false, collapsed: false, children: [] },
@@ -30,9 +58,27 @@ const sampleData: Task[] = [
       ]
     }
 ];
-const sampleConnections: { [sourceId: string]: string[] } = {
-    "sample-3": ["sample-6"]
+const sampleConnections: Connections = {
+    "sample-3": [{ targetId: "sample-6", type: ConnectionType.RelatesTo }]
 };
+// Rising notes announce a break, falling notes the return to work.
+const pomodoroBreakSound = createToneUrl([523, 659, 784], 160);
+const pomodoroWorkSound = createToneUrl([784, 659, 523], 160);
+
+const defaultSettings: AppSettings = {
+    viewMode: 'mindmap',
+    mindmapLayout: 'horizontal',
+    inheritTags: false,
+    trashRetentionDays: 30,
+};
+
+// Data saved before workspaces existed becomes this one.
+const defaultWorkspaces: WorkspaceState = {
+    activeId: 'default',
+    workspaces: [{ id: 'default', name: 'My tasks', viewMode: 'mindmap' }],
+};
+
+const withoutTree = ({ tasks: _tasks, connections: _connections, ...workspace }: Workspace): Workspace => workspace;
 
 
 // Recursive helper to apply mutations to the task tree immutably
@@ -48,69 +94,288 @@ const mapTaskTree = (tasks: Task[], id: string, mutation: (task: Task) => Task):
     });
 };
 
+const findTask = (tasks: Task[], id: string): Task | null => {
+    for (const task of tasks) {
+        if (task.id === id) return task;
+        const found = findTask(task.children, id);
+        if (found) return found;
+    }
+    return null;
+};
+
 type DropPosition = 'top' | 'bottom' | 'child';
+type MoveDirection = 'up' | 'down' | 'indent' | 'outdent';
+
+// Moves a task next to (or into) another one. Used by both drag-and-drop and keyboard editing.
+const moveTask = (tasks: Task[], id: string, targetId: string, position: DropPosition): Task[] => {
+    const taskToMove = findTask(tasks, id);
+    // A task can't be moved into its own subtree.
+    if (!taskToMove || id === targetId || findTask(taskToMove.children, targetId)) return tasks;
+
+    // Dropping a task back into the slot it already occupies changes nothing.
+    const location = findSiblings(tasks, id);
+    if (location) {
+        const { parent, siblings } = location;
+        const index = siblings.findIndex(t => t.id === id);
+        const isSameSlot = position === 'child'
+            ? parent?.id === targetId && index === siblings.length - 1
+            : (position === 'top' ? siblings[index + 1] : siblings[index - 1])?.id === targetId;
+        if (isSameSlot) return tasks;
+    }
+
+    // 1. Remove the task from its original position
+    const removeTask = (tasks: Task[]): Task[] => {
+        return tasks.filter(t => t.id !== id).map(t => ({...t, children: removeTask(t.children)}));
+    };
+
+    // 2. Add it to the new position
+    const addTask = (tasks: Task[]): Task[] => {
+        if (position === 'child') {
+             return tasks.map(t => {
+                if (t.id === targetId) return {...t, collapsed: false, children: [...t.children, taskToMove]};
+                return {...t, children: addTask(t.children)};
+            });
+        }
+
+        const targetIndex = tasks.findIndex(t => t.id === targetId);
+        if (targetIndex !== -1) {
+            const newTasks = [...tasks];
+            newTasks.splice(targetIndex + (position === 'bottom' ? 1 : 0), 0, taskToMove);
+            return newTasks;
+        }
+
+        return tasks.map(t => ({...t, children: addTask(t.children)}));
+    };
+
+    return addTask(removeTask(tasks));
+};
+
+// Returns the parent (null at the top level) and the siblings of a task.
+const findSiblings = (tasks: Task[], id: string, parent: Task | null = null): { parent: Task | null; siblings: Task[] } | null => {
+    if (tasks.some(task => task.id === id)) return { parent, siblings: tasks };
+    for (const task of tasks) {
+        const found = findSiblings(task.children, id, task);
+        if (found) return found;
+    }
+    return null;
+};
 
-const App: React.FC = () => {
-    const [tasks, setTasks] = useLocalStorage<Task[]>('nested-tasks-v4-nordic', sampleData);
-    const [connections, setConnections] = useLocalStorage<{ [sourceId: string]: string[] }>('nested-tasks-connections-v1', sampleConnections);
+// Inserts tasks right after a sibling, wherever it is in the tree.
+const insertAfter = (tasks: Task[], siblingId: string, newTasks: Task[]): Task[] => {
+    const index = tasks.findIndex(t => t.id === siblingId);
+    if (index !== -1) return [...tasks.slice(0, index + 1), ...newTasks, ...tasks.slice(index + 1)];
+    return tasks.map(t => ({ ...t, children: insertAfter(t.children, siblingId, newTasks) }));
+};
+
+// The task whose list row or mindmap node has keyboard focus.
+const activeTaskId = (): string | null => {
+    const element = document.activeElement;
+    return element?.closest('[data-outline-row]')?.getAttribute('data-outline-row')
+        ?? element?.closest('[data-task-id]')?.getAttribute('data-task-id')
+        ?? null;
+};
+
+// The selected tasks that aren't inside another selected task, in outline order. Bulk moves and
+// deletes act on these, since their subtrees come along.
+const collectTopmost = (tasks: Task[], ids: Set<string>): Task[] =>
+    tasks.flatMap(task => ids.has(task.id) ? [task] : collectTopmost(task.children, ids));
+
+// Ids of the tasks shown, top to bottom, for Shift-click range selection.
+const flattenVisible = (tasks: Task[]): string[] =>
+    tasks.flatMap(task => [task.id, ...(task.collapsed ? [] : flattenVisible(task.children))]);
+
+// Marks a task and its whole subtree (in)complete, leaving archived subtasks as they were.
+const setCompletion = (task: Task, completed: boolean, now: number): Task => ({
+    ...task,
+    completed,
+    completedAt: completed ? now : undefined,
+    completionLog: updateCompletionLog(task, completed, now),
+    children: task.children.map(child => child.archivedAt !== undefined ? child : setCompletion(child, completed, now)),
+});
+
+interface AppProps {
+    storage: StorageBackend;
+    storedValues: Partial<StoredValues>;
+}
+
+const App: React.FC<AppProps> = ({ storage, storedValues }) => {
+    const [storageError, setStorageError] = useState<string | null>(storage.fallbackReason ?? null);
+    const handleStorageError = useCallback((error: unknown) => {
+        setStorageError(isQuotaError(error)
+            ? 'Browser storage is full, so recent changes are not being saved. Export a backup and clear completed tasks to free up space.'
+            : `Your changes could not be saved: ${error instanceof Error ? error.message : error}`);
+    }, []);
+    const [tasks, setTasks] = usePersistentState(storage, 'tasks', storedValues.tasks, sampleData, handleStorageError);
+    const [connections, setConnections] = usePersistentState(storage, 'connections', storedValues.connections, sampleConnections, handleStorageError);
+    const [trash, setTrash] = usePersistentState(storage, 'trash', storedValues.trash, [], handleStorageError);
+    const { record, undo, redo, clear: clearHistory, canUndo, canRedo } = useUndoHistory(tasks, connections, trash, setTasks, setConnections, setTrash);
     const [draggedTask, setDraggedTask] = useState<Task | null>(null);
-    const [viewMode, setViewMode] = useState<ViewMode>('mindmap');
+    const [settings, setSettings] = usePersistentState(
+        storage,
+        'settings',
+        // Settings saved by older versions may lack newer fields.
+        storedValues.settings && { ...defaultSettings, ...storedValues.settings },
+        defaultSettings,
+        handleStorageError
+    );
+    const [timeLog, setTimeLog] = usePersistentState(storage, 'timeLog', storedValues.timeLog, [], handleStorageError);
+    const [templates, setTemplates] = usePersistentState(storage, 'templates', storedValues.templates, [], handleStorageError);
+    const [isTemplateLibraryOpen, setTemplateLibraryOpen] = useState(false);
+    const [openPanel, setOpenPanel] = useState<'trash' | 'archive' | null>(null);
+    const [notesTaskId, setNotesTaskId] = useState<string | null>(null);
+    const [workspaceState, setWorkspaceState] = usePersistentState(storage, 'workspaces', storedValues.workspaces, defaultWorkspaces, handleStorageError);
+    const activeWorkspace = workspaceState.workspaces.find(w => w.id === workspaceState.activeId) ?? workspaceState.workspaces[0];
+    // The time log spans every workspace, so the report needs all of their trees to name its tasks.
+    const reportTasks = useMemo(
+        () => [...tasks, ...workspaceState.workspaces.flatMap(w => w.id === activeWorkspace.id ? [] : w.tasks ?? [])],
+        [tasks, workspaceState, activeWorkspace.id]
+    );
+    const [mindmapTransforms, setMindmapTransforms] = usePersistentState(storage, 'mindmapTransforms', storedValues.mindmapTransforms, {}, handleStorageError);
+    const trackedTime = useMemo(() => computeTrackedTime(tasks, timeLog), [tasks, timeLog]);
+    const [pendingImport, setPendingImport] = useState<BackupData | null>(null);
+    const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+    const allTags = useMemo(() => collectTags(tasks), [tasks]);
+    const inheritedTags = useMemo(
+        () => settings.inheritTags ? collectInheritedTags(tasks) : new Map<string, string[]>(),
+        [tasks, settings.inheritTags]
+    );
+    const inheritedRecurrence = useMemo(() => collectInheritedRecurrence(tasks), [tasks]);
+    // Archived tasks stay in `tasks` (and so in the time report) but drop out of every view.
+    const visibleTasks = useMemo(() => hideArchived(tasks), [tasks]);
+    const archivedTasks = useMemo(() => collectArchived(tasks), [tasks]);
+    const notesTask = notesTaskId ? findTask(tasks, notesTaskId) : null;
+    const filteredTasks = useMemo(() => filterTaskTree(visibleTasks, tagFilter, inheritedTags), [visibleTasks, tagFilter, inheritedTags]);
+    const blockers = useMemo(() => findBlockers(tasks, connections), [tasks, connections]);
+    const blockedIds = useMemo(() => collectBlockedIds(tasks, blockers), [tasks, blockers]);
+    const [searchFilter, setSearchFilter] = useState<TaskFilter>(EMPTY_FILTER);
+    const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+    const matches = useMemo(() => findMatches(filteredTasks, searchFilter, blockedIds), [filteredTasks, searchFilter, blockedIds]);
+    const highlightedIds = useMemo(() => new Set(matches.map(match => match.task.id)), [matches]);
+    // Collapsed ancestors of matches are opened for display only; the saved outline is untouched.
+    const displayTasks = useMemo(
+        () => isFilterActive(searchFilter) ? expandAncestors(filteredTasks, highlightedIds) : filteredTasks,
+        [filteredTasks, searchFilter, highlightedIds]
+    );
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const selectionAnchor = useRef<string | null>(null);
+    const { viewMode } = settings;
+    const setViewMode = (mode: ViewMode) => setSettings(prev => ({ ...prev, viewMode: mode }));
     // FIX: Replaced invalid Base64 string with a valid one for a simple chime sound.
     const playTimerSound = useSound('data:audio/wav;base64,UklGRjQAAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQAAAAA=');
+    const playBreakSound = useSound(pomodoroBreakSound);
+    const playWorkSound = useSound(pomodoroWorkSound);
 
     // --- Timer Logic ---
+    // Running timers are stored as deadlines, so rather than rewriting the tree every second
+    // this wakes up when the next one is due, and again whenever the tab becomes visible
+    // (hidden tabs may delay the timeout).
     useEffect(() => {
-        const interval = setInterval(() => {
-            setTasks(currentTasks => {
-                let changed = false;
-                const tick = (tasks: Task[]): Task[] => {
-                    return tasks.map(task => {
-                        let newSubtask = { ...task, children: tick(task.children) };
-                        if (newSubtask.timerState === TimerState.Running && newSubtask.timerRemaining != null && newSubtask.timerRemaining > 0) {
-                            changed = true;
-                            const newRemaining = newSubtask.timerRemaining - 1;
-                            if (newRemaining <= 0) {
-                                playTimerSound();
-                                return { ...newSubtask, timerRemaining: 0, timerState: TimerState.Finished };
-                            }
-                            return { ...newSubtask, timerRemaining: newRemaining };
-                        }
-                        return newSubtask;
-                    });
-                };
-                const newTasks = tick(currentTasks);
-                return changed ? newTasks : currentTasks;
-            });
-        }, 1000);
-        return () => clearInterval(interval);
-    }, [setTasks, playTimerSound]);
+        const finishDueTimers = () => {
+            const now = Date.now();
+            const { tasks: syncedTasks, finished, advanced } = syncTimers(tasks, now);
+            if (syncedTasks === tasks) return;
+            // Only chime for timers that just ran out, not ones that expired while the app was closed.
+            const justEnded = (task: Task) => now - (task.timerDeadline ?? 0) < 60 * 1000;
+            if (finished.some(justEnded)) {
+                playTimerSound();
+            }
+            const advancedNow = advanced.filter(justEnded);
+            if (advancedNow.some(task => task.pomodoro?.phase === PomodoroPhase.Work)) {
+                playBreakSound();
+            } else if (advancedNow.length > 0) {
+                playWorkSound();
+            }
+            setTimeLog(log => appendSessions(log, [
+                ...finished.map(task => createSession(task, task.timerDeadline ?? now, 'finished')),
+                ...advanced.map(task => createSession(task, task.timerDeadline ?? now, 'finished')),
+            ]));
+            setTasks(current => syncTimers(current, now).tasks);
+        };
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') finishDueTimers();
+        };
+
+        finishDueTimers();
+        const deadline = getNextTimerDeadline(tasks);
+        // setTimeout overflows past ~24.8 days; the effect re-arms itself after firing.
+        const timeout = deadline === null ? undefined : setTimeout(finishDueTimers, Math.min(Math.max(0, deadline - Date.now()), 2 ** 31 - 1));
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            clearTimeout(timeout);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [tasks, setTasks, setTimeLog, playTimerSound, playBreakSound, playWorkSound]);
 
     const handleSetTimer = useCallback((id: string, duration: number) => {
         setTasks(prev => mapTaskTree(prev, id, task => ({
             ...task,
             timerDuration: duration,
             timerRemaining: duration,
+            timerDeadline: undefined,
+            timerStartedAt: undefined,
             timerState: TimerState.Idle,
         })));
     }, [setTasks]);
 
+    const handleSetPomodoro = useCallback((id: string, pomodoroSettings: PomodoroSettings) => {
+        setTasks(prev => mapTaskTree(prev, id, task => enterPomodoro(task, pomodoroSettings)));
+    }, [setTasks]);
+
     const handleTimerControl = useCallback((id: string, control: 'start' | 'pause' | 'reset' | 'extend') => {
+        const now = Date.now();
+        // Pausing, resetting or restarting a running timer ends the stretch it was running.
+        const task = findTask(tasks, id);
+        if (task?.timerState === TimerState.Running && control !== 'start') {
+            setTimeLog(log => appendSessions(log, [createSession(task, now, 'interrupted')]));
+        }
         setTasks(prev => mapTaskTree(prev, id, task => {
             switch(control) {
-                case 'start': return { ...task, timerState: TimerState.Running };
-                case 'pause': return { ...task, timerState: TimerState.Paused };
-                case 'reset': return { ...task, timerDuration: undefined, timerRemaining: undefined, timerState: TimerState.Idle };
+                case 'start':
+                    if (task.timerState === TimerState.Running) return task;
+                    // A finished timer has nothing left, so it starts over from its full duration.
+                    return task.timerState === TimerState.Finished ? startTimer(task, now, task.timerDuration ?? 0) : startTimer(task, now);
+                case 'pause': return pauseTimer(task, now);
+                case 'reset': return { ...task, timerDuration: undefined, timerRemaining: undefined, timerDeadline: undefined, timerStartedAt: undefined, timerState: TimerState.Idle, pomodoro: undefined };
                 case 'extend': 
                     // FIX: Ensure timerDuration is not undefined before using it
                     if (task.timerDuration !== undefined) {
-                        return { ...task, timerRemaining: task.timerDuration, timerState: TimerState.Running };
+                        return startTimer(task, now, task.timerDuration);
                     }
                     return task;
                 default: return task;
             }
         }));
+    }, [tasks, setTasks, setTimeLog]);
+
+
+    // --- Recurrence Logic ---
+    // Runs on load (catching up on periods that rolled over while the tab was closed),
+    // once a minute, and whenever the tab becomes visible again.
+    useEffect(() => {
+        const resetDueHabits = () => setTasks(currentTasks => resetRecurringHabits(currentTasks, Date.now()));
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') resetDueHabits();
+        };
+        resetDueHabits();
+        const interval = setInterval(resetDueHabits, 60 * 1000);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
     }, [setTasks]);
 
+    const handleSetRecurrence = useCallback((id: string, recurrence: Recurrence | undefined) => {
+        record();
+        setTasks(prev => mapTaskTree(prev, id, task => ({ ...task, recurrence })));
+    }, [record, setTasks]);
+
+
+    const handleSetSchedule = useCallback((id: string, startDate: string | undefined, dueDate: string | undefined) => {
+        record();
+        setTasks(prev => mapTaskTree(prev, id, task => ({ ...task, startDate, dueDate })));
+    }, [record, setTasks]);
+
 
     // --- Core Task Logic ---
     const handleAddTask = useCallback((title: string, type: TaskType, parentId: string | null = null) => {
@@ -123,6 +388,7 @@ const App: React.FC = () => {
             children: [],
             timerState: TimerState.Idle,
         };
+        record();
         if (parentId) {
             setTasks(prevTasks => mapTaskTree(prevTasks, parentId, task => ({
                 ...task,
@@ -132,54 +398,44 @@ const App: React.FC = () => {
         } else {
             setTasks(prevTasks => [...prevTasks, newTask]);
         }
-    }, [setTasks]);
+    }, [record, setTasks]);
+
+    const handleAddSubtask = useCallback((parentId: string, title: string, type: TaskType) => {
+        handleAddTask(title, type, parentId);
+    }, [handleAddTask]);
 
     const handleToggleComplete = useCallback((id: string, completed: boolean) => {
-        const toggleChildren = (tasks: Task[], newCompleted: boolean): Task[] => {
-            return tasks.map(t => ({
-                ...t,
-                completed: newCompleted,
-                children: toggleChildren(t.children, newCompleted),
-            }));
-        };
-        setTasks(prevTasks => mapTaskTree(prevTasks, id, task => ({
-            ...task,
-            completed: completed,
-            children: toggleChildren(task.children, completed),
-        })));
-    }, [setTasks]);
+        const toggled = findTask(tasks, id);
+        if (completed && toggled) {
+            // Completing a parent completes its subtasks, so their blockers count too.
+            const openBlockers = [...new Set([...findSubtreeBlockers(toggled, blockers).values()].flat())];
+            const titles = openBlockers.map(task => `"${task.title}"`).join(', ');
+            if (openBlockers.length > 0
+                && !confirm(`This task ${toggled.children.length > 0 ? 'or one of its subtasks ' : ''}is blocked by ${titles}, which ${openBlockers.length === 1 ? 'is' : 'are'} still open. Complete it anyway?`)) return;
+        }
+        const now = Date.now();
+        record();
+        setTasks(prevTasks => mapTaskTree(prevTasks, id, task => setCompletion(task, completed, now)));
+    }, [tasks, blockers, record, setTasks]);
 
     const handleToggleCollapse = useCallback((id: string) => {
         setTasks(prevTasks => mapTaskTree(prevTasks, id, task => ({ ...task, collapsed: !task.collapsed })));
     }, [setTasks]);
     
-    const handleUpdate = useCallback((id: string, title: string, type: TaskType) => {
-        setTasks(prevTasks => mapTaskTree(prevTasks, id, task => ({ ...task, title, type })));
-    }, [setTasks]);
-
-    const handleDelete = useCallback((id: string) => {
-        if (!confirm('Are you sure you want to delete this task and all its subtasks?')) return;
+    const handleUpdate = useCallback((id: string, title: string, type: TaskType, priority: Priority | undefined, tags: string[] | undefined) => {
+        record();
+        setTasks(prevTasks => mapTaskTree(prevTasks, id, task => ({ ...task, title, type, priority, tags })));
+    }, [record, setTasks]);
 
+    // Takes tasks out of the tree with their subtasks and any connections to or from them.
+    const removeTasks = useCallback((tasksToRemove: Task[]) => {
         const deletedIds = new Set<string>();
-
-        const findTaskInTree = (tasksToSearch: Task[], targetId: string): Task | null => {
-            for (const task of tasksToSearch) {
-                if (task.id === targetId) return task;
-                const foundInChildren = findTaskInTree(task.children, targetId);
-                if (foundInChildren) return foundInChildren;
-            }
-            return null;
-        };
-
-        const taskToDelete = findTaskInTree(tasks, id);
-        if (!taskToDelete) return;
-
         const collectIds = (task: Task) => {
             deletedIds.add(task.id);
             task.children.forEach(collectIds);
         };
-        collectIds(taskToDelete);
-        
+        tasksToRemove.forEach(collectIds);
+
         setTasks(currentTasks => {
             const cleanTree = (tasks: Task[]): Task[] => {
                 return tasks
@@ -189,20 +445,42 @@ const App: React.FC = () => {
             return cleanTree(currentTasks);
         });
 
-        setConnections(currentConnections => {
-            const newConnections: { [sourceId: string]: string[] } = {};
-            Object.entries(currentConnections).forEach(([sourceId, targetIds]) => {
+        setConnections((currentConnections: Connections) => {
+            const newConnections: Connections = {};
+            Object.entries(currentConnections).forEach(([sourceId, sourceConnections]) => {
                 if (deletedIds.has(sourceId)) return;
-                // FIX: Cast `targetIds` to `string[]` to resolve a TypeScript error where it was inferred as `unknown`.
-                const newTargets = (targetIds as string[]).filter(targetId => !deletedIds.has(targetId));
-                if (newTargets.length > 0) {
-                    newConnections[sourceId] = newTargets;
+                const remaining = sourceConnections.filter(connection => !deletedIds.has(connection.targetId));
+                if (remaining.length > 0) {
+                    newConnections[sourceId] = remaining;
                 }
             });
             return newConnections;
         });
-    }, [tasks, setTasks, setConnections]);
+    }, [setTasks, setConnections]);
+
+    // Deleted subtrees go to the trash, where they keep their place and connections until
+    // they're restored or purged.
+    const deleteTasks = useCallback((tasksToDelete: Task[]) => {
+        // Trashed tasks keep their timers paused, with the stretch they ran logged.
+        const now = Date.now();
+        const { tasks: trashedTasks, paused } = pauseRunningTimers(tasksToDelete, now);
+        if (paused.length > 0) setTimeLog(log => appendSessions(log, paused.map(task => createSession(task, now, 'interrupted'))));
+        const entries = createTrashEntries(tasks, trashedTasks, connections, activeWorkspace.id, now);
+        record();
+        setTrash(prev => [...entries, ...prev]);
+        removeTasks(tasksToDelete);
+    }, [tasks, connections, activeWorkspace, record, setTimeLog, setTrash, removeTasks]);
+
+    const handleDelete = useCallback((id: string) => {
+        const taskToDelete = findTask(tasks, id);
+        if (taskToDelete) deleteTasks([taskToDelete]);
+    }, [tasks, deleteTasks]);
     
+    const handleSetNotes = useCallback((id: string, notes: string) => {
+        record();
+        setTasks(prev => mapTaskTree(prev, id, task => ({ ...task, notes: notes.trim() ? notes : undefined })));
+    }, [record, setTasks]);
+
     // --- Drag and Drop Logic ---
     const handleDragStart = useCallback((e: React.DragEvent, task: Task) => {
         setDraggedTask(task);
@@ -218,50 +496,90 @@ const App: React.FC = () => {
         e.preventDefault();
         if (!draggedTask || draggedTask.id === targetTask.id) return;
         
-        // 1. Remove the dragged task from its original position
-        const removeTask = (tasks: Task[], id: string): Task[] => {
-            return tasks.filter(t => t.id !== id).map(t => ({...t, children: removeTask(t.children, id)}));
-        };
-        const tasksWithoutDragged = removeTask(tasks, draggedTask.id);
-
-        // 2. Add it to the new position
-        const addTask = (tasks: Task[], targetId: string, taskToAdd: Task, pos: DropPosition): Task[] => {
-            if (pos === 'child') {
-                 return tasks.map(t => {
-                    if (t.id === targetId) return {...t, collapsed: false, children: [...t.children, taskToAdd]};
-                    return {...t, children: addTask(t.children, targetId, taskToAdd, pos)};
-                });
-            }
-
-            const targetIndex = tasks.findIndex(t => t.id === targetId);
-            if (targetIndex !== -1) {
-                const newTasks = [...tasks];
-                newTasks.splice(targetIndex + (pos === 'bottom' ? 1 : 0), 0, taskToAdd);
-                return newTasks;
-            }
+        // The dragged task may be a display copy with its ancestors expanded by the search,
+        // so the move looks it up by id in the real tree.
+        const newTasks = moveTask(tasks, draggedTask.id, targetTask.id, position);
+        setDraggedTask(null);
+        if (newTasks === tasks) return;
+        record();
+        setTasks(newTasks);
+    }, [draggedTask, tasks, record, setTasks]);
 
-            return tasks.map(t => ({...t, children: addTask(t.children, targetId, taskToAdd, pos)}));
-        };
+    // --- Keyboard Outline Editing ---
+    const handleMoveTask = useCallback((id: string, direction: MoveDirection) => {
+        const location = findSiblings(tasks, id);
+        if (!location) return;
+        const { parent, siblings } = location;
+        const index = siblings.findIndex(task => task.id === id);
 
-        const newTasks = addTask(tasksWithoutDragged, targetTask.id, draggedTask, position);
+        let newTasks = tasks;
+        switch (direction) {
+            case 'up':
+                if (index > 0) newTasks = moveTask(tasks, id, siblings[index - 1].id, 'top');
+                break;
+            case 'down':
+                if (index < siblings.length - 1) newTasks = moveTask(tasks, id, siblings[index + 1].id, 'bottom');
+                break;
+            case 'indent':
+                if (index > 0) newTasks = moveTask(tasks, id, siblings[index - 1].id, 'child');
+                break;
+            case 'outdent':
+                if (parent) newTasks = moveTask(tasks, id, parent.id, 'bottom');
+                break;
+        }
+        if (newTasks === tasks) return;
+        record();
         setTasks(newTasks);
-        setDraggedTask(null);
-    }, [draggedTask, tasks, setTasks]);
+    }, [tasks, record, setTasks]);
+
+    const handleAddSibling = useCallback((siblingId: string, title: string, type: TaskType) => {
+        const newTask: Task = {
+            id: crypto.randomUUID(),
+            title,
+            type,
+            completed: false,
+            collapsed: false,
+            children: [],
+            timerState: TimerState.Idle,
+        };
+        record();
+        setTasks(prev => insertAfter(prev, siblingId, [newTask]));
+    }, [record, setTasks]);
 
     // --- Connection Logic ---
-    const handleAddConnection = useCallback((sourceId: string, targetId: string) => {
+    const rejectsBlockingCycle = useCallback((sourceId: string, targetId: string, type: ConnectionType) => {
+        if (type !== ConnectionType.Blocks || !wouldCreateCycle(connections, sourceId, targetId)) return false;
+        alert('That connection would create a loop of blocked tasks, so none of them could ever be started.');
+        return true;
+    }, [connections]);
+
+    const handleAddConnection = useCallback((sourceId: string, targetId: string, type: ConnectionType = ConnectionType.RelatesTo) => {
+        if (rejectsBlockingCycle(sourceId, targetId, type)) return;
+        record();
         setConnections(prev => {
-            const newTargets = [...(prev[sourceId] || [])];
-            if (!newTargets.includes(targetId)) {
-                newTargets.push(targetId);
+            const newConnections = [...(prev[sourceId] || [])];
+            if (!newConnections.some(connection => connection.targetId === targetId)) {
+                newConnections.push({ targetId, type });
             }
-            return { ...prev, [sourceId]: newTargets };
+            return { ...prev, [sourceId]: newConnections };
         });
-    }, [setConnections]);
+    }, [rejectsBlockingCycle, record, setConnections]);
+
+    const handleUpdateConnection = useCallback((sourceId: string, targetId: string, type: ConnectionType, label: string | undefined) => {
+        const existing = findConnection(connections, sourceId, targetId);
+        if (existing && existing.type === type && existing.label === label) return;
+        if (rejectsBlockingCycle(sourceId, targetId, type)) return;
+        record();
+        setConnections(prev => ({
+            ...prev,
+            [sourceId]: (prev[sourceId] || []).map(connection => connection.targetId === targetId ? { targetId, type, label } : connection),
+        }));
+    }, [connections, rejectsBlockingCycle, record, setConnections]);
 
     const handleDeleteConnection = useCallback((sourceId: string, targetId: string) => {
+        record();
         setConnections(prev => {
-            const newTargets = (prev[sourceId] || []).filter(id => id !== targetId);
+            const newTargets = (prev[sourceId] || []).filter(connection => connection.targetId !== targetId);
             const newConnections = { ...prev };
             if (newTargets.length > 0) {
                 newConnections[sourceId] = newTargets;
@@ -270,7 +588,305 @@ const App: React.FC = () => {
             }
             return newConnections;
         });
-    }, [setConnections]);
+    }, [record, setConnections]);
+
+    // --- Selection and Bulk Actions ---
+    // Deleted and archived tasks (including by undo) drop out of the selection.
+    useEffect(() => {
+        setSelectedIds(prev => {
+            const remaining = [...prev].filter(id => findTask(visibleTasks, id));
+            return remaining.length === prev.size ? prev : new Set(remaining);
+        });
+    }, [visibleTasks]);
+
+    const handleSelect = useCallback((id: string, mode: 'toggle' | 'range') => {
+        const anchor = selectionAnchor.current;
+        if (mode === 'range' && anchor) {
+            const order = flattenVisible(displayTasks);
+            const from = order.indexOf(anchor);
+            const to = order.indexOf(id);
+            if (from !== -1 && to !== -1) {
+                const range = order.slice(Math.min(from, to), Math.max(from, to) + 1);
+                setSelectedIds(prev => new Set([...prev, ...range]));
+                return;
+            }
+        }
+        selectionAnchor.current = id;
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, [displayTasks]);
+
+    const handleSelectMany = useCallback((ids: string[], additive: boolean) => {
+        setSelectedIds(prev => new Set([...(additive ? prev : []), ...ids]));
+    }, []);
+
+    const clearSelection = () => {
+        setSelectedIds(new Set());
+        selectionAnchor.current = null;
+    };
+
+    const handleBulkComplete = (completed: boolean) => {
+        const selected = collectTopmost(tasks, selectedIds);
+        const blockedCount = selected.reduce((count, task) => count + findSubtreeBlockers(task, blockers).size, 0);
+        if (completed && blockedCount > 0
+            && !confirm(`${blockedCount} of the tasks being completed ${blockedCount === 1 ? 'is' : 'are'} still blocked by open tasks. Complete them anyway?`)) return;
+        const now = Date.now();
+        record();
+        setTasks(prev => selected.reduce((acc, task) => mapTaskTree(acc, task.id, t => setCompletion(t, completed, now)), prev));
+    };
+
+    const handleBulkSetType = (type: TaskType) => {
+        record();
+        setTasks(prev => [...selectedIds].reduce((acc, id) => mapTaskTree(acc, id, task => ({ ...task, type })), prev));
+    };
+
+    const handleBulkMove = (parentId: string | null) => {
+        const moving = collectTopmost(tasks, selectedIds);
+        if (moving.length === 0) return;
+        const movingIds = new Set(moving.map(task => task.id));
+        const remove = (list: Task[]): Task[] =>
+            list.filter(task => !movingIds.has(task.id)).map(task => ({ ...task, children: remove(task.children) }));
+        const remaining = remove(tasks);
+        record();
+        setTasks(parentId
+            ? mapTaskTree(remaining, parentId, parent => ({ ...parent, collapsed: false, children: [...parent.children, ...moving] }))
+            : [...remaining, ...moving]);
+    };
+
+    const handleBulkConnect = (targetId: string, type: ConnectionType) => {
+        let next = connections;
+        let skipped = 0;
+        selectedIds.forEach(sourceId => {
+            if (sourceId === targetId || next[sourceId]?.some(connection => connection.targetId === targetId)) return;
+            if (type === ConnectionType.Blocks && wouldCreateCycle(next, sourceId, targetId)) {
+                skipped++;
+                return;
+            }
+            next = { ...next, [sourceId]: [...(next[sourceId] ?? []), { targetId, type }] };
+        });
+        if (skipped > 0) alert(`${skipped} of the connections would create a loop of blocked tasks and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+        if (next === connections) return;
+        record();
+        setConnections(next);
+    };
+
+    const handleBulkDelete = () => {
+        deleteTasks(collectTopmost(tasks, selectedIds));
+        clearSelection();
+    };
+
+    // --- Copy and Paste ---
+    // Copies go in after the task they're pasted at (or at the end), with fresh ids, and become
+    // the selection so they can be moved on in bulk.
+    const pasteTasks = useCallback((data: ClipboardData, afterId: string | null) => {
+        const copies = cloneWithFreshIds(data);
+        record();
+        setTasks(prev => afterId && findTask(prev, afterId) ? insertAfter(prev, afterId, copies.tasks) : [...prev, ...copies.tasks]);
+        setConnections(prev => ({ ...prev, ...copies.connections }));
+        setSelectedIds(new Set(copies.tasks.map(task => task.id)));
+    }, [record, setTasks, setConnections]);
+
+    // Each task is copied right after itself; connections among the duplicated tasks are copied too.
+    const duplicateTasks = useCallback((originals: Task[]) => {
+        if (originals.length === 0) return;
+        const copies = cloneWithFreshIds(copySubtrees(originals, connections));
+        record();
+        setTasks(prev => originals.reduce((acc, original, i) => insertAfter(acc, original.id, [copies.tasks[i]]), prev));
+        setConnections(prev => ({ ...prev, ...copies.connections }));
+    }, [connections, record, setTasks, setConnections]);
+
+    const handleDuplicate = useCallback((id: string) => {
+        const task = findTask(visibleTasks, id);
+        if (task) duplicateTasks([task]);
+    }, [visibleTasks, duplicateTasks]);
+
+    // Ctrl+C / Ctrl+X copy or cut the selection (or the focused task) with its subtasks, and
+    // Ctrl+V pastes after the focused task. Text fields and selected text keep the native behavior.
+    useEffect(() => {
+        const isTextContext = (e: ClipboardEvent) =>
+            (e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')
+            || (window.getSelection()?.toString() ?? '') !== '';
+
+        const handleCopy = (e: ClipboardEvent) => {
+            if (!e.clipboardData || isTextContext(e)) return;
+            const focusedId = activeTaskId();
+            const ids = selectedIds.size > 0 ? selectedIds : new Set(focusedId ? [focusedId] : []);
+            // Archived descendants are hidden, so they aren't copied; a cut still trashes them.
+            const source = collectTopmost(visibleTasks, ids);
+            if (source.length === 0) return;
+            e.preventDefault();
+            writeClipboard(e.clipboardData, copySubtrees(source, connections));
+            if (e.type === 'cut') {
+                deleteTasks(collectTopmost(tasks, ids));
+                setSelectedIds(new Set());
+            }
+        };
+
+        const handlePaste = (e: ClipboardEvent) => {
+            if (!e.clipboardData || isTextContext(e)) return;
+            const data = readClipboard(e.clipboardData);
+            if (!data) return;
+            e.preventDefault();
+            pasteTasks(data, activeTaskId() ?? (selectedIds.size === 1 ? [...selectedIds][0] : null));
+        };
+
+        document.addEventListener('copy', handleCopy);
+        document.addEventListener('cut', handleCopy);
+        document.addEventListener('paste', handlePaste);
+        return () => {
+            document.removeEventListener('copy', handleCopy);
+            document.removeEventListener('cut', handleCopy);
+            document.removeEventListener('paste', handlePaste);
+        };
+    }, [tasks, visibleTasks, connections, selectedIds, deleteTasks, pasteTasks]);
+
+    // --- Templates ---
+    // The library itself isn't part of undo; adding a template's tasks to the tree is.
+    const handleSaveTemplate = useCallback((id: string) => {
+        const task = findTask(tasks, id);
+        if (!task) return;
+        const name = prompt('Save as template named:', task.title)?.trim();
+        if (!name) return;
+        setTemplates(prev => [...prev, createTemplate(name, [task], connections, Date.now())]);
+    }, [tasks, connections, setTemplates]);
+
+    const handleInsertTemplate = useCallback((templateId: string, parentId: string | null) => {
+        const template = templates.find(t => t.id === templateId);
+        if (!template) return;
+        const copies = instantiateTemplate(template);
+        record();
+        if (parentId) {
+            setTasks(prev => mapTaskTree(prev, parentId, task => ({
+                ...task,
+                collapsed: false,
+                children: [...task.children, ...copies.tasks]
+            })));
+        } else {
+            setTasks(prev => [...prev, ...copies.tasks]);
+        }
+        setConnections(prev => ({ ...prev, ...copies.connections }));
+    }, [templates, record, setTasks, setConnections]);
+
+    const handleRenameTemplate = useCallback((templateId: string, name: string) => {
+        setTemplates(prev => prev.map(t => t.id === templateId ? { ...t, name } : t));
+    }, [setTemplates]);
+
+    const handleDeleteTemplate = useCallback((templateId: string) => {
+        const template = templates.find(t => t.id === templateId);
+        if (!template || !confirm(`Delete the template "${template.name}"? Tasks created from it are kept.`)) return;
+        setTemplates(prev => prev.filter(t => t.id !== templateId));
+    }, [templates, setTemplates]);
+
+    // --- Workspaces ---
+    // The active workspace's tree lives in `tasks` and `connections` as it always has; the others
+    // keep theirs in their workspace entry until they're switched to. Undo doesn't reach across
+    // workspaces, so switching starts a fresh history.
+    const activateWorkspace = useCallback((target: Workspace) => {
+        // Timers only run (and chime) in the active workspace, so the outgoing ones are paused.
+        const now = Date.now();
+        const { tasks: outgoingTasks, paused } = pauseRunningTimers(tasks, now);
+        if (paused.length > 0) setTimeLog(log => appendSessions(log, paused.map(task => createSession(task, now, 'interrupted'))));
+        setWorkspaceState(prev => {
+            const stored = prev.workspaces.map(w => w.id === prev.activeId ? { ...w, viewMode, tasks: outgoingTasks, connections } : w);
+            const listed = stored.some(w => w.id === target.id) ? stored : [...stored, target];
+            return { activeId: target.id, workspaces: listed.map(w => w.id === target.id ? withoutTree(w) : w) };
+        });
+        setTasks(target.tasks ?? []);
+        setConnections(target.connections ?? {});
+        setSettings(prev => ({ ...prev, viewMode: target.viewMode }));
+        clearHistory();
+        setSelectedIds(new Set());
+        setFocusedTaskId(null);
+    }, [viewMode, tasks, connections, setWorkspaceState, setTasks, setConnections, setSettings, setTimeLog, clearHistory]);
+
+    const handleSwitchWorkspace = useCallback((id: string) => {
+        const target = workspaceState.workspaces.find(w => w.id === id);
+        if (target && id !== workspaceState.activeId) activateWorkspace(target);
+    }, [workspaceState, activateWorkspace]);
+
+    const handleCreateWorkspace = useCallback(() => {
+        const name = prompt('Name the new workspace:')?.trim();
+        if (!name) return;
+        activateWorkspace({ id: crypto.randomUUID(), name, viewMode: 'list', tasks: [], connections: {} });
+    }, [activateWorkspace]);
+
+    const handleRenameWorkspace = useCallback(() => {
+        const name = prompt('Rename workspace:', activeWorkspace.name)?.trim();
+        if (!name) return;
+        setWorkspaceState(prev => ({ ...prev, workspaces: prev.workspaces.map(w => w.id === activeWorkspace.id ? { ...w, name } : w) }));
+    }, [activeWorkspace, setWorkspaceState]);
+
+    const handleDeleteWorkspace = useCallback(() => {
+        const next = workspaceState.workspaces.find(w => w.id !== activeWorkspace.id);
+        if (!next || !confirm(`Delete the workspace "${activeWorkspace.name}" and all of its tasks? This can't be undone.`)) return;
+        activateWorkspace(next);
+        setWorkspaceState(prev => ({ ...prev, workspaces: prev.workspaces.filter(w => w.id !== activeWorkspace.id) }));
+        setTrash(prev => prev.filter(entry => entry.workspaceId !== activeWorkspace.id));
+        setMindmapTransforms(({ [activeWorkspace.id]: _deleted, ...rest }) => rest);
+    }, [workspaceState, activeWorkspace, activateWorkspace, setWorkspaceState, setTrash, setMindmapTransforms]);
+
+    // Moves the selected subtrees, with the connections among them, to the end of another
+    // workspace. Ids that already exist there are replaced, as when merging an import.
+    const handleMoveToWorkspace = useCallback((workspaceId: string) => {
+        const target = workspaceState.workspaces.find(w => w.id === workspaceId);
+        const moved = collectTopmost(tasks, selectedIds);
+        if (!target || moved.length === 0) return;
+        if (!confirm(`Move ${moved.length === 1 ? `"${moved[0].title}"` : `${moved.length} tasks`} with subtasks to "${target.name}"? This can't be undone.`)) return;
+        const now = Date.now();
+        const { tasks: movedTasks, paused } = pauseRunningTimers(moved, now);
+        if (paused.length > 0) setTimeLog(log => appendSessions(log, paused.map(task => createSession(task, now, 'interrupted'))));
+        const data = copySubtrees(movedTasks, connections);
+        const merged = mergeBackup(target.tasks ?? [], target.connections ?? {}, [], { ...data, settings: {} });
+        setWorkspaceState(prev => ({
+            ...prev,
+            workspaces: prev.workspaces.map(w => w.id === workspaceId ? { ...w, tasks: merged.tasks, connections: merged.connections } : w),
+        }));
+        removeTasks(moved);
+        clearHistory();
+        setSelectedIds(new Set());
+    }, [workspaceState, tasks, selectedIds, connections, setWorkspaceState, setTimeLog, removeTasks, clearHistory]);
+
+    const handleMindmapTransformChange = useCallback((mindmapTransform: MindmapTransform) => {
+        setMindmapTransforms(prev => ({ ...prev, [activeWorkspace.id]: mindmapTransform }));
+    }, [activeWorkspace.id, setMindmapTransforms]);
+
+    // --- Trash and Archive ---
+    const workspaceTrash = useMemo(() => trash.filter(entry => entry.workspaceId === activeWorkspace.id), [trash, activeWorkspace]);
+
+    // Expired trash is purged when the app opens and hourly while it stays open.
+    useEffect(() => {
+        const purge = () => setTrash(prev => purgeTrash(prev, settings.trashRetentionDays, Date.now()));
+        purge();
+        const interval = setInterval(purge, 60 * 60 * 1000);
+        return () => clearInterval(interval);
+    }, [settings.trashRetentionDays, setTrash]);
+
+    const handleRestoreFromTrash = useCallback((entryId: string) => {
+        const entry = trash.find(e => e.id === entryId);
+        if (!entry) return;
+        const restored = restoreFromTrash(tasks, connections, entry);
+        record();
+        setTasks(restored.tasks);
+        setConnections(restored.connections);
+        setTrash(prev => prev.filter(e => e.id !== entryId));
+    }, [trash, tasks, connections, record, setTasks, setConnections, setTrash]);
+
+    const handleDeleteFromTrash = useCallback((entryIds: string[]) => {
+        const count = entryIds.length;
+        if (count === 0 || !confirm(`Permanently delete ${count === 1 ? 'this task' : `${count} tasks`} and all subtasks?`)) return;
+        const ids = new Set(entryIds);
+        record();
+        setTrash(prev => prev.filter(e => !ids.has(e.id)));
+    }, [record, setTrash]);
+
+    const handleUnarchive = useCallback((id: string) => {
+        record();
+        setTasks(prev => mapTaskTree(prev, id, task => ({ ...task, archivedAt: undefined })));
+    }, [record, setTasks]);
 
     // --- Global Actions ---
     const handleExpandAll = () => {
@@ -285,22 +901,146 @@ const App: React.FC = () => {
         setTasks(prev => setCollapsed(prev, true));
     };
 
-    const handleClearCompleted = () => {
-        if (!confirm('Are you sure you want to clear all completed tasks?')) return;
-        const filterCompleted = (tasks: Task[]): Task[] => {
-            return tasks
-                .filter(t => !t.completed)
-                .map(t => ({ ...t, children: filterCompleted(t.children) }));
-        };
-        setTasks(filterCompleted);
+    const handleArchiveCompleted = () => {
+        if (!hasCompletedTasks(tasks)) {
+            alert('There are no completed tasks to archive.');
+            return;
+        }
+        record();
+        setTasks(prev => archiveCompleted(prev, Date.now()));
     };
 
     const handleReset = () => {
         if (confirm('Are you sure you want to reset all data to the sample data?')) {
+            record();
             setTasks(sampleData);
             setConnections(sampleConnections);
         }
     };
+
+    // --- Backup Logic ---
+    const handleExport = (format: ExportFormat) => {
+        switch (format) {
+            case 'json': {
+                // The active workspace's tree and view mode are kept in their own state.
+                const workspaces = { ...workspaceState, workspaces: workspaceState.workspaces.map(w => w.id === activeWorkspace.id ? { ...withoutTree(w), viewMode } : w) };
+                const backup = createBackup({ tasks, connections, settings, timeLog, workspaces, templates, trash });
+                downloadFile(`habit-tracker-backup-${fileDateStamp()}.json`, JSON.stringify(backup, null, 2), 'application/json');
+                break;
+            }
+            case 'markdown':
+                downloadFile(`habit-tracker-${fileDateStamp()}.md`, tasksToMarkdown(tasks), 'text/markdown');
+                break;
+            case 'opml':
+                downloadFile(`habit-tracker-${fileDateStamp()}.opml`, tasksToOpml(tasks, 'Habit & Todo Tracker'), 'text/x-opml');
+                break;
+        }
+    };
+
+    const handleImportFile = async (file: File) => {
+        try {
+            const text = await file.text();
+            const extension = file.name.split('.').pop()?.toLowerCase();
+            if (extension === 'opml' || extension === 'xml') {
+                setPendingImport({ tasks: opmlToTasks(text), connections: {}, settings: {} });
+            } else if (extension === 'md' || extension === 'markdown' || extension === 'txt') {
+                const importedTasks = markdownToTasks(text);
+                if (importedTasks.length === 0) throw new Error('No checklist items were found.');
+                setPendingImport({ tasks: importedTasks, connections: {}, settings: {} });
+            } else {
+                setPendingImport(parseBackup(text));
+            }
+        } catch (error) {
+            alert(`Could not import "${file.name}": ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    // A backup brings every workspace along. Undo only covers the active tree, so importing one
+    // that changes other workspaces starts a fresh history, as switching workspaces does.
+    const handleConfirmImport = (mode: 'merge' | 'replace') => {
+        if (!pendingImport) return;
+        const importedWorkspaces = pendingImport.workspaces;
+        if (mode === 'replace') {
+            if (importedWorkspaces) {
+                const workspaceIds = new Set(importedWorkspaces.workspaces.map(w => w.id));
+                setWorkspaceState(importedWorkspaces);
+                setTrash(prev => (pendingImport.trash ?? prev).filter(entry => workspaceIds.has(entry.workspaceId)));
+                clearHistory();
+                setSelectedIds(new Set());
+                setFocusedTaskId(null);
+            } else {
+                record();
+            }
+            setTasks(pendingImport.tasks);
+            setConnections(pendingImport.connections);
+            setSettings(prev => ({ ...prev, ...pendingImport.settings }));
+            if (pendingImport.timeLog) setTimeLog(pendingImport.timeLog);
+            if (pendingImport.templates) setTemplates(pendingImport.templates);
+        } else if (importedWorkspaces) {
+            const merged = mergeWorkspaces(tasks, connections, workspaceState, timeLog, pendingImport);
+            if (merged.workspaces !== workspaceState.workspaces) {
+                setWorkspaceState(prev => ({ ...prev, workspaces: merged.workspaces }));
+                clearHistory();
+            } else {
+                record();
+            }
+            setTasks(merged.tasks);
+            setConnections(merged.connections);
+            setTimeLog(merged.timeLog);
+            const importedTemplates = pendingImport.templates ?? [];
+            if (importedTemplates.length > 0) {
+                setTemplates(prev => [...prev, ...importedTemplates.filter(template => !prev.some(t => t.id === template.id))]);
+            }
+            // Deleted tasks of the imported active workspace follow its tree into the current one.
+            const importedTrash = (pendingImport.trash ?? []).map(entry =>
+                entry.workspaceId === importedWorkspaces.activeId ? { ...entry, workspaceId: activeWorkspace.id } : entry);
+            if (importedTrash.length > 0) {
+                setTrash(prev => [...prev, ...importedTrash.filter(entry => !prev.some(e => e.id === entry.id))]);
+            }
+        } else {
+            record();
+            const merged = mergeBackup(tasks, connections, timeLog, pendingImport);
+            setTasks(merged.tasks);
+            setConnections(merged.connections);
+            setTimeLog(merged.timeLog);
+        }
+        setPendingImport(null);
+    };
+
+    // --- Search Logic ---
+    const handleSearchChange = (filter: TaskFilter) => {
+        setSearchFilter(filter);
+        setFocusedTaskId(null);
+    };
+
+    const handleClearSearch = () => {
+        setSearchFilter(EMPTY_FILTER);
+        setFocusedTaskId(null);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave text fields to their native undo.
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            if (e.key === 'Escape' && selectedIds.size > 0) {
+                clearSelection();
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo, selectedIds]);
     
     // FIX: Add return statement with JSX to render the app UI.
     return (
@@ -309,33 +1049,164 @@ const App: React.FC = () => {
                 <Header 
                     onExpandAll={handleExpandAll}
                     onCollapseAll={handleCollapseAll}
-                    onClearCompleted={handleClearCompleted}
+                    onArchiveCompleted={handleArchiveCompleted}
+                    onOpenArchive={() => setOpenPanel('archive')}
+                    onOpenTrash={() => setOpenPanel('trash')}
+                    archivedCount={archivedTasks.length}
+                    trashCount={workspaceTrash.length}
                     onReset={handleReset}
+                    onUndo={undo}
+                    onRedo={redo}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
+                    onExport={handleExport}
+                    onImportFile={handleImportFile}
                     viewMode={viewMode}
                     onViewModeChange={setViewMode}
+                    tags={allTags}
+                    tagFilter={tagFilter}
+                    onTagFilterChange={setTagFilter}
+                    inheritTags={settings.inheritTags}
+                    onInheritTagsChange={inheritTags => setSettings(prev => ({ ...prev, inheritTags }))}
+                    workspaces={workspaceState.workspaces}
+                    activeWorkspaceId={activeWorkspace.id}
+                    onSwitchWorkspace={handleSwitchWorkspace}
+                    onCreateWorkspace={handleCreateWorkspace}
+                    onRenameWorkspace={handleRenameWorkspace}
+                    onDeleteWorkspace={handleDeleteWorkspace}
                 />
+                {storageError && (
+                    <div className="flex items-start justify-between gap-4 bg-red-500/10 border border-red-500/30 text-red-300 text-sm rounded-xl p-4 mb-6">
+                        <p>{storageError}</p>
+                        <button onClick={() => setStorageError(null)} className="text-red-300 hover:text-white font-semibold">Dismiss</button>
+                    </div>
+                )}
                 <main>
                     <TaskInput 
                         onAddTask={(title, type) => handleAddTask(title, type, null)} 
+                        templates={templates}
+                        onInsertTemplate={templateId => handleInsertTemplate(templateId, null)}
+                        onManageTemplates={() => setTemplateLibraryOpen(true)}
+                    />
+                    {viewMode !== 'report' && (
+                        <SearchBar
+                            filter={searchFilter}
+                            onFilterChange={handleSearchChange}
+                            matches={matches}
+                            focusedTaskId={focusedTaskId}
+                            onFocusMatch={setFocusedTaskId}
+                            onClear={handleClearSearch}
+                        />
+                    )}
+                    {viewMode === 'report' ? (
+                        <TimeReport tasks={reportTasks} timeLog={timeLog} />
+                    ) : (
+                        <TaskList 
+                            key={activeWorkspace.id}
+                            tasks={displayTasks}
+                            connections={connections}
+                            trackedTime={trackedTime}
+                            highlightedIds={highlightedIds}
+                            focusedTaskId={focusedTaskId}
+                            selectedIds={selectedIds}
+                            inheritedTags={inheritedTags}
+                            inheritedRecurrence={inheritedRecurrence}
+                            blockers={blockers}
+                            templates={templates}
+                            viewMode={viewMode}
+                            mindmapLayout={settings.mindmapLayout}
+                            onMindmapLayoutChange={mindmapLayout => setSettings(prev => ({ ...prev, mindmapLayout }))}
+                            mindmapTransform={mindmapTransforms[activeWorkspace.id]}
+                            onMindmapTransformChange={handleMindmapTransformChange}
+                            onToggleComplete={handleToggleComplete}
+                            onToggleCollapse={handleToggleCollapse}
+                            onDelete={handleDelete}
+                            onUpdate={handleUpdate}
+                            onAddSubtask={handleAddSubtask}
+                            onSetTimer={handleSetTimer}
+                            onTimerControl={handleTimerControl}
+                            onSetPomodoro={handleSetPomodoro}
+                            onSetRecurrence={handleSetRecurrence}
+                            onSetSchedule={handleSetSchedule}
+                            onDragStart={handleDragStart}
+                            onDragEnd={handleDragEnd}
+                            onDrop={handleDrop}
+                            onMoveTask={handleMoveTask}
+                            onAddSibling={handleAddSibling}
+                            onAddConnection={handleAddConnection}
+                            onUpdateConnection={handleUpdateConnection}
+                            onDeleteConnection={handleDeleteConnection}
+                            onSelect={handleSelect}
+                            onSelectMany={handleSelectMany}
+                            onDuplicate={handleDuplicate}
+                            onSaveTemplate={handleSaveTemplate}
+                            onInsertTemplate={handleInsertTemplate}
+                            onOpenNotes={setNotesTaskId}
+                        />
+                    )}
+                </main>
+                {selectedIds.size > 0 && viewMode !== 'report' && (
+                    <SelectionBar
+                        tasks={visibleTasks}
+                        selectedIds={selectedIds}
+                        onComplete={handleBulkComplete}
+                        onSetType={handleBulkSetType}
+                        onMove={handleBulkMove}
+                        onConnect={handleBulkConnect}
+                        onDuplicate={() => duplicateTasks(collectTopmost(visibleTasks, selectedIds))}
+                        workspaces={workspaceState.workspaces.filter(w => w.id !== activeWorkspace.id)}
+                        onMoveToWorkspace={handleMoveToWorkspace}
+                        onDelete={handleBulkDelete}
+                        onClear={clearSelection}
+                    />
+                )}
+                {notesTask && (
+                    <NotesPanel
+                        key={notesTask.id}
+                        task={notesTask}
+                        onSave={handleSetNotes}
+                        onClose={() => setNotesTaskId(null)}
+                    />
+                )}
+                {openPanel === 'trash' && (
+                    <TrashPanel
+                        entries={workspaceTrash}
+                        retentionDays={settings.trashRetentionDays}
+                        onRetentionDaysChange={trashRetentionDays => setSettings(prev => ({ ...prev, trashRetentionDays }))}
+                        onRestore={handleRestoreFromTrash}
+                        onDelete={handleDeleteFromTrash}
+                        onClose={() => setOpenPanel(null)}
                     />
-                    <TaskList 
-                        tasks={tasks}
-                        connections={connections}
-                        viewMode={viewMode}
-                        onToggleComplete={handleToggleComplete}
-                        onToggleCollapse={handleToggleCollapse}
+                )}
+                {openPanel === 'archive' && (
+                    <ArchivePanel
+                        tasks={archivedTasks}
+                        onUnarchive={handleUnarchive}
                         onDelete={handleDelete}
-                        onUpdate={handleUpdate}
-                        onAddSubtask={(parentId, title, type) => handleAddTask(title, type, parentId)}
-                        onSetTimer={handleSetTimer}
-                        onTimerControl={handleTimerControl}
-                        onDragStart={handleDragStart}
-                        onDragEnd={handleDragEnd}
-                        onDrop={handleDrop}
-                        onAddConnection={handleAddConnection}
-                        onDeleteConnection={handleDeleteConnection}
+                        onClose={() => setOpenPanel(null)}
                     />
-                </main>
+                )}
+                {isTemplateLibraryOpen && (
+                    <TemplateLibrary
+                        templates={templates}
+                        onInsert={templateId => handleInsertTemplate(templateId, null)}
+                        onRename={handleRenameTemplate}
+                        onDelete={handleDeleteTemplate}
+                        onClose={() => setTemplateLibraryOpen(false)}
+                    />
+                )}
+                {pendingImport && (
+                    <ImportDialog
+                        title="Import tasks"
+                        summary={pendingImport.workspaces && pendingImport.workspaces.workspaces.length > 1
+                            ? `The file contains ${pendingImport.workspaces.workspaces.length} workspaces; the active one has ${pendingImport.tasks.length} top-level task${pendingImport.tasks.length === 1 ? '' : 's'}.`
+                            : `The file contains ${pendingImport.tasks.length} top-level task${pendingImport.tasks.length === 1 ? '' : 's'}.`}
+                        replacesWorkspaces={Boolean(pendingImport.workspaces)}
+                        onMerge={() => handleConfirmImport('merge')}
+                        onReplace={() => handleConfirmImport('replace')}
+                        onCancel={() => setPendingImport(null)}
+                    />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Task } from '../types';
+import { countTasks } from '../services/trash';
+
+interface ArchivePanelProps {
+  tasks: Task[]; // archived tasks, not counting those inside other archived tasks
+  onUnarchive: (id: string) => void;
+  onDelete: (id: string) => void; // moves it to the trash
+  onClose: () => void;
+}
+
+const ArchivePanel: React.FC<ArchivePanelProps> = ({ tasks, onUnarchive, onDelete, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+    <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+      <h2 className="text-xl font-bold text-sky-400">Archive</h2>
+      <p className="text-slate-400 mt-2 text-sm">Archived tasks are hidden from every view, but their history and tracked time are kept.</p>
+      {tasks.length === 0 ? (
+        <p className="text-slate-400 mt-4 text-sm">Nothing is archived yet. Use "Archive Completed" to put finished work here.</p>
+      ) : (
+        <ul className="mt-4 max-h-96 overflow-y-auto divide-y divide-slate-700">
+          {tasks.map(task => {
+            const taskCount = countTasks(task);
+            return (
+              <li key={task.id} className="flex items-center gap-2 py-2">
+                <div className="flex-grow min-w-0">
+                  <p className="text-slate-200 font-medium truncate">{task.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {taskCount} task{taskCount === 1 ? '' : 's'}{task.archivedAt !== undefined && ` · archived ${new Date(task.archivedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button onClick={() => onUnarchive(task.id)} className="px-2 py-1 text-xs font-semibold rounded bg-sky-600 hover:bg-sky-500 text-white transition-colors">Unarchive</button>
+                <button onClick={() => onDelete(task.id)} className="px-2 py-1 text-xs font-semibold rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors">Delete</button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="flex justify-end mt-6">
+        <button onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Close</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ArchivePanel;
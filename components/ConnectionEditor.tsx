@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Connection, ConnectionType } from '../types';
+import { CONNECTION_TYPE_LABELS } from '../services/connections';
+
+const ConnectionEditor: React.FC<{
+    connection: Connection;
+    sourceTitle: string;
+    targetTitle: string;
+    style: React.CSSProperties; // position inside the mindmap container
+    onSave: (type: ConnectionType, label: string | undefined) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}> = ({ connection, sourceTitle, targetTitle, style, onSave, onDelete, onClose }) => {
+    const [type, setType] = useState(connection.type);
+    const [label, setLabel] = useState(connection.label ?? '');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => { inputRef.current?.focus(); }, []);
+
+    const handleSave = () => onSave(type, label.trim() || undefined);
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') handleSave();
+        if (e.key === 'Escape') onClose();
+    };
+
+    return (
+        <div
+            style={style}
+            className="absolute z-30 bg-slate-700 p-2 rounded-md shadow-lg w-64 text-sm cursor-default"
+            onMouseDown={(e) => e.stopPropagation()}
+            onWheel={(e) => e.stopPropagation()}
+        >
+            <p className="px-1 pb-2 text-xs text-slate-400 truncate">{sourceTitle} → {targetTitle}</p>
+            <div className="grid grid-cols-3 gap-1">
+                {Object.values(ConnectionType).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setType(option)}
+                        className={`px-2 py-1 text-xs font-semibold rounded ${type === option ? 'bg-sky-600 text-white' : 'bg-slate-600 hover:bg-slate-500'}`}
+                    >
+                        {CONNECTION_TYPE_LABELS[option]}
+                    </button>
+                ))}
+            </div>
+            <input
+                ref={inputRef}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Label (optional)"
+                className="mt-2 w-full bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-sky-500"
+            />
+            <div className="mt-2 pt-2 border-t border-slate-600 flex gap-2">
+                <button onClick={handleSave} className="flex-grow px-3 py-1 text-xs font-semibold bg-sky-600 hover:bg-sky-500 rounded text-white">Save</button>
+                <button onClick={onDelete} className="px-3 py-1 text-xs font-semibold bg-red-500/20 text-red-300 hover:bg-red-500/30 rounded">Delete</button>
+                <button onClick={onClose} className="px-3 py-1 text-xs font-semibold bg-slate-600 hover:bg-slate-500 rounded">Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+export default ConnectionEditor;
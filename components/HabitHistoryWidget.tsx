@@ -0,0 +1,82 @@
+import React, { useMemo, useState } from 'react';
+import { Recurrence, Task } from '../types';
+import { collectHabitHistory, computeStreaks, DayHistory, toDayKey } from '../services/history';
+import { FlameIcon } from './Icons';
+
+const intensityClass = (ratio: number): string => {
+    if (ratio <= 0) return 'bg-slate-700/60';
+    if (ratio < 0.5) return 'bg-teal-900';
+    if (ratio < 1) return 'bg-teal-700';
+    return 'bg-teal-400';
+};
+
+// GitHub-style calendar: one column per week, one row per weekday, oldest week on the left.
+const HabitHeatmap: React.FC<{ history: DayHistory; weeks: number }> = ({ history, weeks }) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const firstDay = new Date(today);
+    firstDay.setDate(today.getDate() - today.getDay() - (weeks - 1) * 7);
+
+    const columns = Array.from({ length: weeks }, (_, week) =>
+        Array.from({ length: 7 }, (_, weekday) => {
+            const date = new Date(firstDay);
+            date.setDate(firstDay.getDate() + week * 7 + weekday);
+            return date;
+        })
+    );
+
+    return (
+        <div className="flex gap-[2px]">
+            {columns.map((days, week) => (
+                <div key={week} className="flex flex-col gap-[2px]">
+                    {days.map(date => {
+                        const key = toDayKey(date.getTime());
+                        if (date > today) {
+                            return <div key={key} className="w-2 h-2" />;
+                        }
+                        const entry = history.get(key);
+                        const ratio = entry ? entry.done / entry.total : 0;
+                        return (
+                            <div
+                                key={key}
+                                className={`w-2 h-2 rounded-[2px] ${intensityClass(ratio)}`}
+                                title={`${date.toDateString()}: ${entry ? `${entry.done}/${entry.total}` : 'not'} completed`}
+                            />
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// `recurrence` is the habit's effective schedule, which may be inherited from an ancestor.
+const HabitHistoryWidget: React.FC<{ task: Task; recurrence?: Recurrence; weeks?: number }> = ({ task, recurrence, weeks = 20 }) => {
+    const [isPopoverOpen, setPopoverOpen] = useState(false);
+    const history = useMemo(() => collectHabitHistory(task), [task]);
+    const streaks = useMemo(() => computeStreaks(task, recurrence), [task, recurrence]);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setPopoverOpen(!isPopoverOpen)}
+                className={`flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full border ${streaks.current > 0 ? 'bg-orange-500/10 text-orange-300 border-orange-500/20' : 'bg-slate-700/40 text-slate-400 border-slate-600/40'}`}
+                title="Completion history"
+            >
+                <FlameIcon className="w-3.5 h-3.5" />
+                {streaks.current}
+            </button>
+            {isPopoverOpen && (
+                <div className="absolute top-full left-0 mt-2 z-30 bg-slate-700 p-3 rounded-md shadow-lg text-sm">
+                    <div className="flex gap-4 pb-2 text-xs text-slate-300">
+                        <span>Current streak: <span className="font-bold text-orange-300">{streaks.current}</span></span>
+                        <span>Longest: <span className="font-bold text-teal-300">{streaks.longest}</span></span>
+                    </div>
+                    <HabitHeatmap history={history} weeks={weeks} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HabitHistoryWidget;
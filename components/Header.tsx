@@ -1,17 +1,56 @@
-import React from 'react';
-import { ViewMode } from '../types';
+import React, { useRef, useState } from 'react';
+import { ExportFormat, Priority, TagFilter, ViewMode, Workspace } from '../types';
+import { isTagFilterActive, PRIORITY_LABELS } from '../services/tags';
 
 interface HeaderProps {
   onExpandAll: () => void;
   onCollapseAll: () => void;
-  onClearCompleted: () => void;
+  onArchiveCompleted: () => void;
+  onOpenArchive: () => void;
+  onOpenTrash: () => void;
+  archivedCount: number;
+  trashCount: number;
   onReset: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onExport: (format: ExportFormat) => void;
+  onImportFile: (file: File) => void;
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
+  tags: string[]; // every tag used in the tree
+  tagFilter: TagFilter;
+  onTagFilterChange: (filter: TagFilter) => void;
+  inheritTags: boolean;
+  onInheritTagsChange: (inherit: boolean) => void;
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  onSwitchWorkspace: (id: string) => void;
+  onCreateWorkspace: () => void;
+  onRenameWorkspace: () => void; // the active one
+  onDeleteWorkspace: () => void; // the active one
 }
 
-const Header: React.FC<HeaderProps> = ({ onExpandAll, onCollapseAll, onClearCompleted, onReset, viewMode, onViewModeChange }) => {
-  
+const Header: React.FC<HeaderProps> = ({ onExpandAll, onCollapseAll, onArchiveCompleted, onOpenArchive, onOpenTrash, archivedCount, trashCount, onReset, onUndo, onRedo, canUndo, canRedo, onExport, onImportFile, viewMode, onViewModeChange, tags, tagFilter, onTagFilterChange, inheritTags, onInheritTagsChange, workspaces, activeWorkspaceId, onSwitchWorkspace, onCreateWorkspace, onRenameWorkspace, onDeleteWorkspace }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExportMenuOpen, setExportMenuOpen] = useState(false);
+  const [isFilterMenuOpen, setFilterMenuOpen] = useState(false);
+  const [isWorkspaceMenuOpen, setWorkspaceMenuOpen] = useState(false);
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId);
+  const activeFilterCount = tagFilter.tags.length + (tagFilter.priority !== 'all' ? 1 : 0);
+
+  const toggleTag = (tag: string) => {
+    const selected = tagFilter.tags.includes(tag) ? tagFilter.tags.filter(t => t !== tag) : [...tagFilter.tags, tag];
+    onTagFilterChange({ ...tagFilter, tags: selected });
+  };
+
+  const exportOptions: { format: ExportFormat; label: string }[] = [
+    { format: 'json', label: 'Backup (JSON)' },
+    { format: 'markdown', label: 'Markdown checklist' },
+    { format: 'opml', label: 'OPML outline' },
+  ];
+
   const baseButtonClass = "px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200";
   const activeViewClass = "bg-sky-600 text-white shadow-lg";
   const inactiveViewClass = "bg-slate-700/50 hover:bg-slate-700 text-slate-300";
@@ -19,16 +58,126 @@ const Header: React.FC<HeaderProps> = ({ onExpandAll, onCollapseAll, onClearComp
   return (
     <div className="bg-slate-800/60 p-4 rounded-xl mb-6 shadow-2xl border border-slate-700/80">
       <div className="flex justify-between items-center mb-4">
-        <h1 className="text-3xl font-bold text-sky-400">Habit & Todo Tracker</h1>
+        <div className="flex items-center gap-4">
+          <h1 className="text-3xl font-bold text-sky-400">Habit & Todo Tracker</h1>
+          <div className="relative">
+            <button onClick={() => setWorkspaceMenuOpen(!isWorkspaceMenuOpen)} className="px-3 py-1.5 text-sm font-semibold bg-slate-900/50 border border-slate-700 hover:bg-slate-700 text-slate-200 rounded-lg transition-colors" title="Switch workspace">
+              {activeWorkspace?.name ?? 'Workspace'} ▾
+            </button>
+            {isWorkspaceMenuOpen && (
+              <div className="absolute top-full left-0 mt-2 z-30 bg-slate-700 p-1 rounded-md shadow-lg w-56 text-sm">
+                {workspaces.map(workspace => (
+                  <button
+                    key={workspace.id}
+                    onClick={() => { onSwitchWorkspace(workspace.id); setWorkspaceMenuOpen(false); }}
+                    className={`block w-full text-left px-3 py-1.5 rounded truncate ${workspace.id === activeWorkspaceId ? 'bg-sky-600 text-white' : 'hover:bg-slate-600 text-slate-200'}`}
+                  >
+                    {workspace.name}
+                  </button>
+                ))}
+                <div className="mt-1 pt-1 border-t border-slate-600">
+                  <button onClick={() => { onCreateWorkspace(); setWorkspaceMenuOpen(false); }} className="block w-full text-left px-3 py-1.5 rounded hover:bg-slate-600 text-slate-200">New workspace…</button>
+                  <button onClick={() => { onRenameWorkspace(); setWorkspaceMenuOpen(false); }} className="block w-full text-left px-3 py-1.5 rounded hover:bg-slate-600 text-slate-200">Rename…</button>
+                  {workspaces.length > 1 && (
+                    <button onClick={() => { onDeleteWorkspace(); setWorkspaceMenuOpen(false); }} className="block w-full text-left px-3 py-1.5 rounded hover:bg-red-500/30 text-red-300">Delete workspace</button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
         <div className="flex bg-slate-900/50 border border-slate-700 p-1 rounded-lg">
              <button onClick={() => onViewModeChange('list')} className={`${baseButtonClass} ${viewMode === 'list' ? activeViewClass : inactiveViewClass}`}>List</button>
              <button onClick={() => onViewModeChange('mindmap')} className={`${baseButtonClass} ${viewMode === 'mindmap' ? activeViewClass : inactiveViewClass}`}>Mindmap</button>
+             <button onClick={() => onViewModeChange('today')} className={`${baseButtonClass} ${viewMode === 'today' ? activeViewClass : inactiveViewClass}`}>Today</button>
+             <button onClick={() => onViewModeChange('report')} className={`${baseButtonClass} ${viewMode === 'report' ? activeViewClass : inactiveViewClass}`}>Report</button>
         </div>
       </div>
       <div className="flex flex-wrap gap-3">
+        <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700">Undo</button>
+        <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-slate-700">Redo</button>
+        <div className="w-px bg-slate-700"></div>
         <button onClick={onExpandAll} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Expand All</button>
         <button onClick={onCollapseAll} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Collapse All</button>
-        <button onClick={onClearCompleted} className="px-4 py-2 text-sm font-semibold bg-red-500/20 text-red-300 hover:bg-red-500/30 rounded-md transition-colors">Clear Completed</button>
+        <button onClick={onArchiveCompleted} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors" title="Hide completed tasks from every view, keeping them for history">Archive Completed</button>
+        <button onClick={onOpenArchive} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Archive{archivedCount > 0 && ` (${archivedCount})`}</button>
+        <button onClick={onOpenTrash} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Trash{trashCount > 0 && ` (${trashCount})`}</button>
+        <div className="relative">
+          <button
+            onClick={() => setFilterMenuOpen(!isFilterMenuOpen)}
+            className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors ${isTagFilterActive(tagFilter) ? 'bg-violet-600/30 text-violet-200 hover:bg-violet-600/40' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+          >
+            Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </button>
+          {isFilterMenuOpen && (
+            <div className="absolute top-full left-0 mt-2 z-30 bg-slate-700 p-2 rounded-md shadow-lg w-64 text-sm">
+              <p className="px-1 pb-1 text-xs text-slate-400">Priority</p>
+              <div className="grid grid-cols-4 gap-1">
+                {(['all', ...Object.values(Priority)] as TagFilter['priority'][]).map(level => (
+                  <button
+                    key={level}
+                    onClick={() => onTagFilterChange({ ...tagFilter, priority: level })}
+                    className={`px-2 py-1 text-xs font-semibold rounded ${tagFilter.priority === level ? 'bg-sky-600 text-white' : 'bg-slate-600 hover:bg-slate-500'}`}
+                  >
+                    {level === 'all' ? 'Any' : PRIORITY_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+              <p className="px-1 pt-2 pb-1 text-xs text-slate-400">Tags</p>
+              {tags.length === 0 ? (
+                <p className="px-1 text-xs text-slate-500">No tags yet. Add them when editing a task.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-2 py-0.5 text-xs rounded-full border ${tagFilter.tags.includes(tag) ? 'bg-violet-600 border-violet-500 text-white' : 'border-slate-500 text-slate-300 hover:bg-slate-600'}`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <label className="flex items-center gap-2 mt-2 pt-2 border-t border-slate-600 px-1 text-xs text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={inheritTags} onChange={(e) => onInheritTagsChange(e.target.checked)} className="accent-sky-500" />
+                Subtasks inherit their parents' tags
+              </label>
+              {isTagFilterActive(tagFilter) && (
+                <button onClick={() => onTagFilterChange({ tags: [], priority: 'all' })} className="mt-2 w-full px-3 py-1 text-xs font-semibold bg-slate-600 hover:bg-slate-500 rounded">Clear filter</button>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="w-px bg-slate-700"></div>
+        <div className="relative">
+          <button onClick={() => setExportMenuOpen(!isExportMenuOpen)} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Export</button>
+          {isExportMenuOpen && (
+            <div className="absolute top-full left-0 mt-2 z-30 bg-slate-700 p-1 rounded-md shadow-lg w-48 text-sm">
+              {exportOptions.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => { onExport(option.format); setExportMenuOpen(false); }}
+                  className="block w-full text-left px-3 py-1.5 rounded hover:bg-slate-600 text-slate-200"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Import</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.md,.markdown,.txt,.opml,.xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportFile(file);
+            e.target.value = '';
+          }}
+        />
         <button onClick={onReset} className="px-4 py-2 text-sm font-semibold bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 rounded-md transition-colors">Reset Data</button>
       </div>
     </div>
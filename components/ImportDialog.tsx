@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ImportDialogProps {
+  title: string;
+  summary: string;
+  replacesWorkspaces: boolean; // a full backup replaces every workspace, not just the active tree
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ title, summary, replacesWorkspaces, onMerge, onReplace, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onCancel}>
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-sky-400">{title}</h2>
+        <p className="text-slate-300 mt-2 text-sm">{summary}</p>
+        <p className="text-slate-400 mt-3 text-sm">
+          <span className="font-semibold text-slate-200">Merge</span> adds the imported tasks after your current ones{replacesWorkspaces ? ' and brings in the other workspaces' : ''}.{' '}
+          <span className="font-semibold text-slate-200">Replace</span> discards your current {replacesWorkspaces ? 'workspaces with their tasks' : 'tasks and connections'}.
+        </p>
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Cancel</button>
+          <button onClick={onMerge} className="px-4 py-2 text-sm font-semibold bg-sky-600 hover:bg-sky-500 text-white rounded-md transition-colors">Merge</button>
+          <button onClick={onReplace} className="px-4 py-2 text-sm font-semibold bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 rounded-md transition-colors">Replace</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
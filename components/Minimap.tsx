@@ -0,0 +1,105 @@
+import React, { useMemo, useRef } from 'react';
+import { NodePosition, Point } from '../services/mindmapLayout';
+
+const MAX_WIDTH = 192;
+const MAX_HEIGHT = 128;
+
+interface MinimapProps {
+  positions: NodePosition[];
+  width: number;  // canvas size
+  height: number;
+  transform: { x: number; y: number; scale: number };
+  viewSize: { width: number; height: number };
+  highlightedIds: Set<string>;
+  onNavigate: (center: Point) => void; // canvas point to center the view on
+  onDragChange: (dragging: boolean) => void;
+}
+
+const Minimap: React.FC<MinimapProps> = ({ positions, width, height, transform, viewSize, highlightedIds, onNavigate, onDragChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragOffset = useRef<Point | null>(null);
+    const ratio = Math.min(MAX_WIDTH / width, MAX_HEIGHT / height);
+
+    // Nodes only change with the layout, so panning just moves the viewport rectangle.
+    const nodes = useMemo(() => positions.map(({ task, x, y, width: w, height: h }) => (
+        <rect
+            key={task.id}
+            x={x * ratio}
+            y={y * ratio}
+            width={Math.max(1, w * ratio)}
+            height={Math.max(1, h * ratio)}
+            className={highlightedIds.has(task.id) ? 'fill-amber-400' : task.completed ? 'fill-slate-600' : 'fill-slate-400'}
+        />
+    )), [positions, ratio, highlightedIds]);
+
+    const viewport = {
+        x: (-transform.x / transform.scale) * ratio,
+        y: (-transform.y / transform.scale) * ratio,
+        width: (viewSize.width / transform.scale) * ratio,
+        height: (viewSize.height / transform.scale) * ratio,
+    };
+
+    const toMinimap = (e: React.PointerEvent): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toMinimap(e);
+        const centerX = viewport.x + viewport.width / 2;
+        const centerY = viewport.y + viewport.height / 2;
+        const insideViewport = point.x >= viewport.x && point.x <= viewport.x + viewport.width
+            && point.y >= viewport.y && point.y <= viewport.y + viewport.height;
+        // Grabbing the rectangle drags it from where it was caught; clicking elsewhere jumps there.
+        dragOffset.current = insideViewport ? { x: point.x - centerX, y: point.y - centerY } : { x: 0, y: 0 };
+        onDragChange(true);
+        if (!insideViewport) onNavigate({ x: point.x / ratio, y: point.y / ratio });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragOffset.current) return;
+        const point = toMinimap(e);
+        onNavigate({ x: (point.x - dragOffset.current.x) / ratio, y: (point.y - dragOffset.current.y) / ratio });
+    };
+
+    const handlePointerUp = () => {
+        if (!dragOffset.current) return;
+        dragOffset.current = null;
+        onDragChange(false);
+    };
+
+    if (width === 0 || height === 0) return null;
+
+    return (
+        <div
+            className="absolute bottom-4 right-4 z-10 p-1.5 bg-slate-900/80 border border-slate-700 rounded-lg backdrop-blur-sm"
+            onMouseDown={(e) => e.stopPropagation()}
+            onWheel={(e) => e.stopPropagation()}
+        >
+            <svg
+                ref={svgRef}
+                width={width * ratio}
+                height={height * ratio}
+                className="block cursor-pointer overflow-hidden"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {nodes}
+                <rect
+                    x={viewport.x}
+                    y={viewport.y}
+                    width={viewport.width}
+                    height={viewport.height}
+                    className="fill-sky-400/10 stroke-sky-400 cursor-move"
+                    strokeWidth={1.5}
+                />
+            </svg>
+        </div>
+    );
+};
+
+export default Minimap;
@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Task } from '../types';
+import { renderMarkdown, toggleChecklistItem } from '../services/markdown';
+
+interface NotesPanelProps {
+  task: Task;
+  onSave: (id: string, notes: string) => void;
+  onClose: () => void;
+}
+
+// Edits are kept as a draft and saved when the editor loses focus or the panel closes, so a
+// whole editing session is one undo step. Ticking a checklist box in the preview saves at once.
+const NotesPanel: React.FC<NotesPanelProps> = ({ task, onSave, onClose }) => {
+  const [draft, setDraft] = useState(task.notes ?? '');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const preview = useMemo(() => renderMarkdown(draft), [draft]);
+
+  useEffect(() => { textareaRef.current?.focus(); }, []);
+
+  // Blank notes are stored as none, so whitespace on its own isn't a change.
+  const save = (notes: string) => {
+    const value = notes.trim() ? notes : '';
+    if (value !== (task.notes ?? '')) onSave(task.id, value);
+  };
+
+  const handleClose = () => {
+    save(draft);
+    onClose();
+  };
+
+  const handlePreviewClick = (e: React.MouseEvent) => {
+    const line = (e.target as HTMLElement).closest('input[data-line]')?.getAttribute('data-line');
+    if (line === null || line === undefined) return;
+    const notes = toggleChecklistItem(draft, Number(line));
+    setDraft(notes);
+    save(notes);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      handleClose();
+    }
+  };
+
+  return (
+    <aside
+      className="fixed top-0 right-0 z-40 h-full w-full max-w-md flex flex-col bg-slate-800 border-l border-slate-700 shadow-2xl"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center justify-between gap-3 p-4 border-b border-slate-700">
+        <div className="min-w-0">
+          <p className="text-xs text-slate-400">Notes</p>
+          <h2 className="text-lg font-bold text-sky-400 truncate">{task.title}</h2>
+        </div>
+        <button onClick={handleClose} className="px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors" title="Close (Esc)">Done</button>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => save(draft)}
+        placeholder={'Links, acceptance criteria, checklists…\n\n- [ ] Markdown checklist item\n**bold**, _italic_, `code`, [link](https://example.com)'}
+        className="h-2/5 m-4 mb-2 resize-none bg-slate-900/70 border border-slate-700 rounded-lg p-3 font-mono text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:ring-2 focus:ring-sky-500"
+      />
+      <p className="px-4 text-xs text-slate-500">Preview</p>
+      {draft.trim() === '' ? (
+        <p className="flex-1 px-4 py-2 text-sm text-slate-500">Nothing to preview yet.</p>
+      ) : (
+        <div
+          className="flex-1 overflow-y-auto px-4 py-2 space-y-2 text-sm text-slate-300 break-words"
+          onClick={handlePreviewClick}
+          dangerouslySetInnerHTML={{ __html: preview }}
+        />
+      )}
+    </aside>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Recurrence, RecurrenceFrequency, Task } from '../types';
+import { describeRecurrence, WEEKDAY_LABELS } from '../services/recurrence';
+import { RepeatIcon } from './Icons';
+
+const frequencyOptions = [
+    { label: 'Daily', value: RecurrenceFrequency.Daily },
+    { label: 'Weekly', value: RecurrenceFrequency.Weekly },
+    { label: 'Every N days', value: RecurrenceFrequency.Interval },
+    { label: 'Monthly', value: RecurrenceFrequency.Monthly },
+];
+
+const RecurrenceWidget: React.FC<{
+    task: Task;
+    onSetRecurrence: (id: string, recurrence: Recurrence | undefined) => void;
+}> = ({ task, onSetRecurrence }) => {
+    const [isPopoverOpen, setPopoverOpen] = useState(false);
+    const [frequency, setFrequency] = useState<RecurrenceFrequency>(task.recurrence?.frequency ?? RecurrenceFrequency.Daily);
+    const [weekdays, setWeekdays] = useState<number[]>(task.recurrence?.weekdays ?? [new Date().getDay()]);
+    const [intervalDays, setIntervalDays] = useState(String(task.recurrence?.interval ?? 2));
+
+    const toggleWeekday = (day: number) => {
+        setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+    };
+
+    const handleSave = () => {
+        const recurrence: Recurrence = { frequency };
+        if (frequency === RecurrenceFrequency.Weekly) {
+            if (weekdays.length === 0) return;
+            recurrence.weekdays = [...weekdays].sort((a, b) => a - b);
+        }
+        if (frequency === RecurrenceFrequency.Interval) {
+            const days = parseInt(intervalDays, 10);
+            if (isNaN(days) || days < 1) return;
+            recurrence.interval = days;
+            // Keep counting from the original day when only the length changes.
+            recurrence.anchorDate = task.recurrence?.anchorDate ?? Date.now();
+        }
+        onSetRecurrence(task.id, recurrence);
+        setPopoverOpen(false);
+    };
+
+    const handleClear = () => {
+        onSetRecurrence(task.id, undefined);
+        setPopoverOpen(false);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setPopoverOpen(!isPopoverOpen)}
+                className={`flex items-center gap-1 p-1.5 rounded-md hover:bg-slate-700/50 ${task.recurrence ? 'text-teal-400 hover:text-teal-300' : 'text-slate-400 hover:text-white'}`}
+                title={task.recurrence ? `Repeats: ${describeRecurrence(task.recurrence)}` : 'Set repeat schedule'}
+            >
+                <RepeatIcon className="w-5 h-5" />
+                {task.recurrence && <span className="text-xs font-semibold">{describeRecurrence(task.recurrence)}</span>}
+            </button>
+            {isPopoverOpen && (
+                <div className="absolute top-full right-0 mt-2 z-20 bg-slate-700 p-2 rounded-md shadow-lg w-64 text-sm">
+                    <p className="px-1 pb-2 text-xs text-slate-400">Repeat</p>
+                    <div className="grid grid-cols-2 gap-1">
+                        {frequencyOptions.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => setFrequency(option.value)}
+                                className={`px-2 py-1 text-xs font-semibold rounded ${frequency === option.value ? 'bg-sky-600 text-white' : 'bg-slate-600 hover:bg-slate-500'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {frequency === RecurrenceFrequency.Weekly && (
+                        <div className="mt-2 flex gap-1">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    onClick={() => toggleWeekday(day)}
+                                    className={`flex-1 py-1 text-[10px] font-semibold rounded ${weekdays.includes(day) ? 'bg-teal-600 text-white' : 'bg-slate-600 hover:bg-slate-500'}`}
+                                >
+                                    {label.charAt(0)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {frequency === RecurrenceFrequency.Interval && (
+                        <div className="mt-2 flex items-center gap-2 text-xs text-slate-300">
+                            <span>Every</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={intervalDays}
+                                onChange={(e) => setIntervalDays(e.target.value)}
+                                className="w-16 bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-sky-500"
+                            />
+                            <span>days</span>
+                        </div>
+                    )}
+                    <div className="mt-2 pt-2 border-t border-slate-600 flex gap-2">
+                        <button onClick={handleSave} className="flex-grow px-3 py-1 text-xs font-semibold bg-sky-600 hover:bg-sky-500 rounded text-white">Save</button>
+                        {task.recurrence && (
+                            <button onClick={handleClear} className="px-3 py-1 text-xs font-semibold bg-slate-600 hover:bg-slate-500 rounded">Clear</button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RecurrenceWidget;
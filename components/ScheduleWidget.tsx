@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { DueStatus, formatScheduleDate, getDueStatus, hasTime } from '../services/schedule';
+import { CalendarIcon } from './Icons';
+
+const dueStatusStyles: { [status in DueStatus]: string } = {
+    overdue: 'text-red-400 hover:text-red-300',
+    today: 'text-amber-400 hover:text-amber-300',
+    soon: 'text-sky-400 hover:text-sky-300',
+    later: 'text-slate-300 hover:text-white',
+};
+
+// One date field with a toggle between a plain day and a day with a time.
+const DateField: React.FC<{
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+}> = ({ label, value, onChange }) => {
+    const withTime = hasTime(value);
+
+    const toggleTime = () => {
+        if (!value) return;
+        onChange(withTime ? value.split('T')[0] : `${value}T09:00`);
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="flex justify-between items-center px-1 pb-1 text-xs text-slate-400">
+                <span>{label}</span>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={withTime} disabled={!value} onChange={toggleTime} className="accent-sky-500" />
+                    Time
+                </label>
+            </div>
+            <div className="flex gap-1">
+                <input
+                    type={withTime ? 'datetime-local' : 'date'}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="flex-grow bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-sky-500 [color-scheme:dark]"
+                />
+                {value && (
+                    <button onClick={() => onChange('')} className="px-2 text-xs text-slate-400 hover:text-white" title={`Remove ${label.toLowerCase()}`}>×</button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ScheduleWidget: React.FC<{
+    task: Task;
+    now: number;
+    onSetSchedule: (id: string, startDate: string | undefined, dueDate: string | undefined) => void;
+}> = ({ task, now, onSetSchedule }) => {
+    const [isPopoverOpen, setPopoverOpen] = useState(false);
+    const [startDate, setStartDate] = useState(task.startDate ?? '');
+    const [dueDate, setDueDate] = useState(task.dueDate ?? '');
+    const dueStatus = getDueStatus(task, now);
+
+    const handleOpen = () => {
+        setStartDate(task.startDate ?? '');
+        setDueDate(task.dueDate ?? '');
+        setPopoverOpen(!isPopoverOpen);
+    };
+
+    const handleSave = () => {
+        onSetSchedule(task.id, startDate || undefined, dueDate || undefined);
+        setPopoverOpen(false);
+    };
+
+    const isInvalid = startDate !== '' && dueDate !== '' && startDate > dueDate;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={handleOpen}
+                className={`flex items-center gap-1 p-1.5 rounded-md hover:bg-slate-700/50 ${task.dueDate ? dueStatusStyles[dueStatus ?? 'later'] : 'text-slate-400 hover:text-white'}`}
+                title={task.dueDate ? `Due ${formatScheduleDate(task.dueDate, now)}` : 'Set dates'}
+            >
+                <CalendarIcon className="w-5 h-5" />
+            </button>
+            {isPopoverOpen && (
+                <div className="absolute top-full right-0 mt-2 z-20 bg-slate-700 p-2 rounded-md shadow-lg w-64 text-sm">
+                    <DateField label="Start" value={startDate} onChange={setStartDate} />
+                    <DateField label="Due" value={dueDate} onChange={setDueDate} />
+                    {isInvalid && <p className="mt-2 px-1 text-xs text-red-300">The start date is after the due date.</p>}
+                    <div className="mt-2 pt-2 border-t border-slate-600 flex gap-2">
+                        <button onClick={handleSave} disabled={isInvalid} className="flex-grow px-3 py-1 text-xs font-semibold bg-sky-600 hover:bg-sky-500 disabled:opacity-50 rounded text-white">Save</button>
+                        <button onClick={() => setPopoverOpen(false)} className="px-3 py-1 text-xs font-semibold bg-slate-600 hover:bg-slate-500 rounded">Cancel</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScheduleWidget;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { TaskFilter, TaskType } from '../types';
+import { isFilterActive, SearchMatch } from '../services/search';
+
+interface SearchBarProps {
+  filter: TaskFilter;
+  onFilterChange: (filter: TaskFilter) => void;
+  matches: SearchMatch[];
+  focusedTaskId: string | null;
+  onFocusMatch: (id: string) => void;
+  onClear: () => void;
+}
+
+const MAX_VISIBLE_RESULTS = 8;
+
+const SearchBar: React.FC<SearchBarProps> = ({ filter, onFilterChange, matches, focusedTaskId, onFocusMatch, onClear }) => {
+  const isActive = isFilterActive(filter);
+  const selectClass = "bg-slate-900/70 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500 cursor-pointer";
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      onClear();
+    } else if (e.key === 'Enter' && matches.length > 0) {
+      // Enter steps through the matches, Shift+Enter goes backwards.
+      const index = matches.findIndex(match => match.task.id === focusedTaskId);
+      const step = e.shiftKey ? -1 : 1;
+      const next = index === -1 ? 0 : (index + step + matches.length) % matches.length;
+      onFocusMatch(matches[next].task.id);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/60 p-4 rounded-xl mb-6 shadow-2xl border border-slate-700/80">
+      <div className="flex flex-col lg:flex-row gap-3">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+          onKeyDown={handleKeyDown}
+          placeholder="Search tasks..."
+          className="flex-grow bg-slate-900/70 border border-slate-700 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500 transition-all text-slate-100 placeholder-slate-500"
+        />
+        <div className="flex flex-wrap gap-3">
+          <select value={filter.type} onChange={(e) => onFilterChange({ ...filter, type: e.target.value as TaskFilter['type'] })} className={selectClass}>
+            <option value="all">All types</option>
+            <option value={TaskType.Todo}>Todos</option>
+            <option value={TaskType.Habit}>Habits</option>
+          </select>
+          <select value={filter.status} onChange={(e) => onFilterChange({ ...filter, status: e.target.value as TaskFilter['status'] })} className={selectClass}>
+            <option value="all">Any status</option>
+            <option value="open">Open</option>
+            <option value="completed">Completed</option>
+            <option value="ready">Ready to work on</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={filter.runningTimer}
+              onChange={(e) => onFilterChange({ ...filter, runningTimer: e.target.checked })}
+              className="accent-sky-500"
+            />
+            Running timer
+          </label>
+          {isActive && (
+            <button onClick={onClear} className="px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Clear</button>
+          )}
+        </div>
+      </div>
+      {isActive && (
+        <div className="mt-3">
+          <p className="text-xs text-slate-500 mb-1">{matches.length} match{matches.length === 1 ? '' : 'es'}</p>
+          <ul className="space-y-0.5">
+            {matches.slice(0, MAX_VISIBLE_RESULTS).map(({ task, path }) => (
+              <li key={task.id}>
+                <button
+                  onClick={() => onFocusMatch(task.id)}
+                  className={`w-full text-left px-2 py-1 rounded text-sm transition-colors ${task.id === focusedTaskId ? 'bg-sky-600/30 text-white' : 'hover:bg-slate-700/60 text-slate-300'}`}
+                >
+                  {path.length > 0 && <span className="text-slate-500">{path.map(ancestor => ancestor.title).join(' › ')} › </span>}
+                  {task.title}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {matches.length > MAX_VISIBLE_RESULTS && (
+            <p className="text-xs text-slate-500 mt-1 px-2">and {matches.length - MAX_VISIBLE_RESULTS} more, highlighted below</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
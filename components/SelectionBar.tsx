@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import { ConnectionType, Task, TaskType, Workspace } from '../types';
+import { CONNECTION_TYPE_LABELS } from '../services/connections';
+
+interface SelectionBarProps {
+  tasks: Task[];
+  selectedIds: Set<string>;
+  onComplete: (completed: boolean) => void;
+  onSetType: (type: TaskType) => void;
+  onMove: (parentId: string | null) => void;
+  onConnect: (targetId: string, type: ConnectionType) => void;
+  onDuplicate: () => void;
+  workspaces: Workspace[]; // the ones the selection can be moved to
+  onMoveToWorkspace: (workspaceId: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const TOP_LEVEL = '__top__';
+
+// Every task as an indented option, leaving out the selected subtrees when asked to
+// (a task can't be moved under itself).
+const taskOptions = (tasks: Task[], excluded?: Set<string>): { id: string; label: string }[] => {
+    const options: { id: string; label: string }[] = [];
+    const visit = (task: Task, depth: number) => {
+        if (excluded?.has(task.id)) return;
+        options.push({ id: task.id, label: `${'\u00a0\u00a0'.repeat(depth)}${task.title}` });
+        task.children.forEach(child => visit(child, depth + 1));
+    };
+    tasks.forEach(task => visit(task, 0));
+    return options;
+};
+
+const SelectionBar: React.FC<SelectionBarProps> = ({ tasks, selectedIds, onComplete, onSetType, onMove, onConnect, onDuplicate, workspaces, onMoveToWorkspace, onDelete, onClear }) => {
+    const [connectionType, setConnectionType] = useState(ConnectionType.RelatesTo);
+    const moveTargets = useMemo(() => taskOptions(tasks, selectedIds), [tasks, selectedIds]);
+    const connectTargets = useMemo(() => taskOptions(tasks), [tasks]);
+
+    const buttonClass = "px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 hover:bg-slate-600 transition-colors";
+    const selectClass = "bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-xs max-w-[11rem] focus:outline-none focus:ring-1 focus:ring-sky-500";
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center justify-center gap-2 max-w-[calc(100%-2rem)] bg-slate-800 border border-slate-600 rounded-xl shadow-lg px-4 py-2 text-sm">
+            <span className="font-semibold text-sky-300 pr-1">{selectedIds.size} selected</span>
+            <button onClick={() => onComplete(true)} className={buttonClass}>Complete</button>
+            <button onClick={() => onComplete(false)} className={buttonClass}>Reopen</button>
+            <select value="" onChange={(e) => onSetType(e.target.value as TaskType)} className={selectClass}>
+                <option value="" disabled>Change type…</option>
+                <option value={TaskType.Todo}>Todo</option>
+                <option value={TaskType.Habit}>Habit</option>
+            </select>
+            <select value="" onChange={(e) => onMove(e.target.value === TOP_LEVEL ? null : e.target.value)} className={selectClass}>
+                <option value="" disabled>Move under…</option>
+                <option value={TOP_LEVEL}>Top level</option>
+                {moveTargets.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            <div className="flex items-center gap-1">
+                <select value={connectionType} onChange={(e) => setConnectionType(e.target.value as ConnectionType)} className={selectClass} title="Connection type">
+                    {Object.values(ConnectionType).map(type => <option key={type} value={type}>{CONNECTION_TYPE_LABELS[type]}</option>)}
+                </select>
+                <select value="" onChange={(e) => onConnect(e.target.value, connectionType)} className={selectClass}>
+                    <option value="" disabled>Connect to…</option>
+                    {connectTargets.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+            </div>
+            {workspaces.length > 0 && (
+                <select value="" onChange={(e) => onMoveToWorkspace(e.target.value)} className={selectClass}>
+                    <option value="" disabled>Move to workspace…</option>
+                    {workspaces.map(workspace => <option key={workspace.id} value={workspace.id}>{workspace.name}</option>)}
+                </select>
+            )}
+            <button onClick={onDuplicate} className={buttonClass} title="Ctrl+C / Ctrl+X copy or cut the selection, Ctrl+V pastes it">Duplicate</button>
+            <button onClick={onDelete} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors">Delete</button>
+            <button onClick={onClear} className="px-2 py-1.5 text-xs text-slate-400 hover:text-white" title="Clear selection (Esc)">Clear</button>
+        </div>
+    );
+};
+
+export default SelectionBar;
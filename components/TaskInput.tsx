@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
-import { TaskType } from '../types';
+import { TaskTemplate, TaskType } from '../types';
 
 interface TaskInputProps {
   onAddTask: (title: string, type: TaskType) => void;
+  templates: TaskTemplate[];
+  onInsertTemplate: (templateId: string) => void;
+  onManageTemplates: () => void;
 }
 
-const TaskInput: React.FC<TaskInputProps> = ({ onAddTask }) => {
+const TaskInput: React.FC<TaskInputProps> = ({ onAddTask, templates, onInsertTemplate, onManageTemplates }) => {
   const [title, setTitle] = useState('');
   const [type, setType] = useState<TaskType>(TaskType.Todo);
 
@@ -48,8 +51,23 @@ const TaskInput: React.FC<TaskInputProps> = ({ onAddTask }) => {
           Add Task
         </button>
       </div>
+      <div className="flex items-center gap-3 mt-3 text-sm">
+        {templates.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => onInsertTemplate(e.target.value)}
+            className="bg-slate-900/70 border border-slate-700 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-sky-500 cursor-pointer"
+          >
+            <option value="" disabled>Add from template…</option>
+            {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+          </select>
+        )}
+        <button onClick={onManageTemplates} className="text-slate-400 hover:text-sky-300 font-semibold transition-colors">
+          Manage templates{templates.length > 0 && ` (${templates.length})`}
+        </button>
+      </div>
     </div>
   );
 };
 
-export default TaskInput;
\ No newline at end of file
+export default TaskInput;
@@ -1,31 +1,64 @@
 // FIX: Import `useEffect` to be able to use the hook.
 import React, { useState, useRef, useEffect } from 'react';
-import { Task, TaskType, TimerState, ViewMode } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, TimerIcon, PlayIcon, PauseIcon, RotateCcwIcon, PlusCircleIcon, DragHandleIcon, ChevronRightIcon, ChevronDownIcon } from './Icons';
+import { ConnectionType, PomodoroPhase, PomodoroSettings, Priority, Recurrence, Task, TaskTemplate, TaskType, TimerState, ViewMode } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, TimerIcon, PlayIcon, PauseIcon, RotateCcwIcon, PlusCircleIcon, DragHandleIcon, ChevronRightIcon, ChevronDownIcon, DuplicateIcon, TemplateIcon, NoteIcon } from './Icons';
 import CircularProgress from './CircularProgress';
 import Checkbox from './Checkbox';
+import RecurrenceWidget from './RecurrenceWidget';
+import ScheduleWidget from './ScheduleWidget';
+import HabitHistoryWidget from './HabitHistoryWidget';
+import useNow from '../hooks/useNow';
+import { getTimerRemaining } from '../services/timer';
+import { computeProgress } from '../services/progress';
+import { DueStatus, formatScheduleDate, getDueStatus, isNotStarted } from '../services/schedule';
+import { parseTags, PRIORITY_LABELS } from '../services/tags';
+import { DEFAULT_POMODORO_SETTINGS, PHASE_LABELS } from '../services/pomodoro';
+import { formatDuration } from '../services/timeLog';
+import { countChecklist } from '../services/markdown';
 
 type DropPosition = 'top' | 'bottom' | 'child';
+type MoveDirection = 'up' | 'down' | 'indent' | 'outdent';
 
 interface TaskHandlers {
   onToggleComplete: (id: string, completed: boolean) => void;
   onToggleCollapse: (id:string) => void;
   onDelete: (id: string) => void;
-  onUpdate: (id: string, title: string, type: TaskType) => void;
+  onUpdate: (id: string, title: string, type: TaskType, priority: Priority | undefined, tags: string[] | undefined) => void;
   onAddSubtask: (parentId: string, title: string, type: TaskType) => void;
   onSetTimer: (id: string, duration: number) => void;
   onTimerControl: (id: string, control: 'start' | 'pause' | 'reset' | 'extend') => void;
+  onSetPomodoro: (id: string, settings: PomodoroSettings) => void;
+  onSetRecurrence: (id: string, recurrence: Recurrence | undefined) => void;
+  onSetSchedule: (id: string, startDate: string | undefined, dueDate: string | undefined) => void;
   onDragStart: (e: React.DragEvent, task: Task) => void;
   onDragEnd: (e: React.DragEvent) => void;
   onDrop: (e: React.DragEvent, targetTask: Task, position: DropPosition) => void;
+  onMoveTask: (id: string, direction: MoveDirection) => void;
+  onAddSibling: (siblingId: string, title: string, type: TaskType) => void;
   onAddConnection: (sourceId: string, targetId: string) => void;
+  onUpdateConnection: (sourceId: string, targetId: string, type: ConnectionType, label: string | undefined) => void;
   onDeleteConnection: (sourceId: string, targetId: string) => void;
+  onSelect: (id: string, mode: 'toggle' | 'range') => void;
+  onSelectMany: (ids: string[], additive: boolean) => void;
+  onDuplicate: (id: string) => void;
+  onSaveTemplate: (id: string) => void;
+  onInsertTemplate: (templateId: string, parentId: string | null) => void;
+  onOpenNotes: (id: string) => void;
 }
 
 interface TaskItemProps extends TaskHandlers {
   task: Task;
   depth: number;
   viewMode: ViewMode;
+  trackedTime: Map<string, number>;
+  highlightedIds: Set<string>;
+  focusedTaskId: string | null;
+  selectedIds: Set<string>;
+  inheritedTags: Map<string, string[]>; // tags picked up from ancestors, when tags are inherited
+  inheritedRecurrence: Map<string, Recurrence>; // schedules habits without their own pick up from ancestors
+  blockers: Map<string, Task[]>; // open tasks each task waits on through "blocks" connections
+  templates: TaskTemplate[];
+  hideChildren?: boolean; // render the row alone, as in the Today view
   style?: React.CSSProperties; // For absolute positioning in mindmap
   onStartDrawingConnection?: (task: Task, e: React.MouseEvent) => void;
 }
@@ -38,29 +71,24 @@ const levelStyles = [
     { border: 'border-rose-400', bg: 'bg-rose-400/5', text: 'text-rose-300' }
 ];
 
-const computeProgress = (task: Task): { done: number; total: number } => {
-  if (!task.children || task.children.length === 0) {
-    return { done: task.completed ? 1 : 0, total: 1 };
-  }
-  const childrenProgress = task.children.reduce(
-    (acc, child) => {
-      const childProgress = computeProgress(child);
-      acc.done += childProgress.done;
-      acc.total += childProgress.total;
-      return acc;
-    },
-    { done: 0, total: 0 }
-  );
-  return {
-    done: childrenProgress.done,
-    total: childrenProgress.total,
-  };
+const dueBadgeStyles: { [status in DueStatus]: string } = {
+    overdue: 'bg-red-500/10 text-red-300 border-red-500/30',
+    today: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+    soon: 'bg-sky-500/10 text-sky-300 border-sky-500/20',
+    later: 'bg-slate-700/40 text-slate-300 border-slate-600/40',
+};
+
+const priorityStyles: { [priority in Priority]: string } = {
+    [Priority.High]: 'bg-red-500/10 text-red-300 border-red-500/30',
+    [Priority.Medium]: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+    [Priority.Low]: 'bg-slate-700/40 text-slate-400 border-slate-600/40',
 };
 
 const TaskItem: React.FC<TaskItemProps> = (props) => {
-    const { task, depth, viewMode, style, onStartDrawingConnection, ...handlers } = props;
+    const { task, depth, viewMode, trackedTime, highlightedIds, focusedTaskId, selectedIds, inheritedTags, inheritedRecurrence, blockers, templates, hideChildren, style, onStartDrawingConnection, ...handlers } = props;
     const [isEditing, setIsEditing] = useState(false);
     const [isAddingSubtask, setIsAddingSubtask] = useState(false);
+    const [isAddingSibling, setIsAddingSibling] = useState(false);
     const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
     const itemRef = useRef<HTMLDivElement>(null);
 
@@ -70,10 +98,33 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
     const styleIndex = depth % levelStyles.length;
     const { border: borderStyle, bg: bgStyle, text: textStyle } = levelStyles[styleIndex];
 
+    const isFocused = focusedTaskId === task.id;
+    const isSelected = selectedIds.has(task.id);
+    const matchRing = isFocused ? 'ring-2 ring-amber-400' : isSelected ? 'ring-2 ring-sky-400' : highlightedIds.has(task.id) ? 'ring-1 ring-amber-400/50' : '';
+
+    useEffect(() => {
+        // The mindmap pans to the focused node itself.
+        if (isFocused && viewMode === 'list') {
+            itemRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [isFocused, viewMode]);
+
     const handleToggleComplete = () => {
         handlers.onToggleComplete(task.id, !isCompleted);
     };
 
+    // Ctrl/Cmd-click toggles the task in the selection, Shift-click selects up to it.
+    const handleSelectClick = (e: React.MouseEvent) => {
+        if (!(e.ctrlKey || e.metaKey || e.shiftKey)) return;
+        if ((e.target as HTMLElement).closest('button, input, select, textarea')) return;
+        e.preventDefault();
+        handlers.onSelect(task.id, e.shiftKey ? 'range' : 'toggle');
+    };
+    // Keeps Shift-click from selecting text.
+    const handleSelectMouseDown = (e: React.MouseEvent) => {
+        if (e.shiftKey) e.preventDefault();
+    };
+
     const handleDragOver = (e: React.DragEvent) => {
         e.preventDefault();
         if (!itemRef.current || viewMode === 'mindmap') return;
@@ -90,26 +141,132 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
         }
     };
 
+    // Outliner keys for a focused list row. Moves go through the same tree operations as drag-and-drop.
+    const handleRowKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.target !== e.currentTarget) return;
+        const rows: HTMLElement[] = Array.from(e.currentTarget.closest('[data-outline]')?.querySelectorAll<HTMLElement>('[data-outline-row]') ?? []);
+        const index = rows.indexOf(e.currentTarget);
+
+        if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+            handlers.onMoveTask(task.id, e.key === 'ArrowUp' ? 'up' : 'down');
+            focusRow(task.id);
+        } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            rows[index + (e.key === 'ArrowUp' ? -1 : 1)]?.focus();
+        } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            if (task.children.length > 0 && task.collapsed === (e.key === 'ArrowRight')) handlers.onToggleCollapse(task.id);
+        } else if (e.key === 'Tab') {
+            handlers.onMoveTask(task.id, e.shiftKey ? 'outdent' : 'indent');
+            focusRow(task.id);
+        } else if (e.key === 'Enter') {
+            setIsAddingSibling(true);
+        } else if (e.key === ' ') {
+            handleToggleComplete();
+        } else if (e.key === 'F2') {
+            setIsEditing(true);
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+
     const progressPercent = progress ? Math.round((progress.done / progress.total) * 100) : 0;
-    const timerProgress = (task.timerDuration && task.timerRemaining != null) 
-        ? 100 - (task.timerRemaining / task.timerDuration * 100) 
-        : 0;
     
-    const editor = isEditing ? <Editor isSubtask={false} onSave={(title, type) => { handlers.onUpdate(task.id, title, type); setIsEditing(false); }} onCancel={() => setIsEditing(false)} task={task} /> : null;
-    const subtaskEditor = isAddingSubtask ? <Editor isSubtask={true} onSave={(title, type) => { handlers.onAddSubtask(task.id, title, type); setIsAddingSubtask(false); }} onCancel={() => setIsAddingSubtask(false)} task={task} /> : null;
+    const editor = isEditing ? <Editor isSubtask={false} onSave={(title, type, priority, tags) => { handlers.onUpdate(task.id, title, type, priority, tags); setIsEditing(false); focusRow(task.id); }} onCancel={() => { setIsEditing(false); focusRow(task.id); }} task={task} /> : null;
+    const subtaskEditor = isAddingSubtask ? <Editor isSubtask={true} onSave={(title, type) => { handlers.onAddSubtask(task.id, title, type); setIsAddingSubtask(false); }} onCancel={() => setIsAddingSubtask(false)} task={task} templates={templates} onInsertTemplate={(templateId) => { handlers.onInsertTemplate(templateId, task.id); setIsAddingSubtask(false); }} /> : null;
+    const siblingEditor = isAddingSibling ? <Editor isSubtask={true} onSave={(title, type) => { handlers.onAddSibling(task.id, title, type); setIsAddingSibling(false); focusRow(task.id); }} onCancel={() => { setIsAddingSibling(false); focusRow(task.id); }} task={task} /> : null;
+
+    const pomodoroBadge = task.pomodoroCount ? (
+        <span className="flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-rose-500/10 text-rose-300 border border-rose-500/20" title="Completed pomodoros">
+            <TimerIcon className="w-3.5 h-3.5" />
+            {task.pomodoroCount}
+        </span>
+    ) : null;
+
+    const checklist = task.notes ? countChecklist(task.notes) : null;
+    const noteBadge = checklist ? (
+        <button
+            onClick={() => handlers.onOpenNotes(task.id)}
+            className="flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-700/40 text-slate-300 border border-slate-600/40 hover:bg-slate-600/60"
+            title={checklist.total > 0 ? `Notes · ${checklist.done} of ${checklist.total} checklist items done` : 'Notes'}
+        >
+            <NoteIcon className="w-3.5 h-3.5" />
+            {checklist.total > 0 && `${checklist.done}/${checklist.total}`}
+        </button>
+    ) : null;
+
+    const trackedSeconds = trackedTime.get(task.id);
+    const trackedTimeBadge = trackedSeconds ? (
+        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-700/40 text-slate-300 border border-slate-600/40" title={task.children.length > 0 ? 'Time tracked, including subtasks' : 'Time tracked'}>
+            {formatDuration(trackedSeconds)}
+        </span>
+    ) : null;
+
+    const now = useNow(Boolean(task.dueDate || task.startDate), 60 * 1000);
+    const dueStatus = getDueStatus(task, now);
+    const dueBadge = task.dueDate ? (
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${dueBadgeStyles[dueStatus ?? 'later']}`} title={dueStatus === 'overdue' ? 'Overdue' : 'Due date'}>
+            {dueStatus === 'overdue' ? 'Overdue · ' : 'Due '}{formatScheduleDate(task.dueDate, now)}
+        </span>
+    ) : null;
+    const startBadge = task.startDate && isNotStarted(task, now) ? (
+        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-700/40 text-slate-400 border border-slate-600/40" title="Start date">
+            Starts {formatScheduleDate(task.startDate, now)}
+        </span>
+    ) : null;
+    const priorityBadge = task.priority ? (
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${priorityStyles[task.priority]}`} title="Priority">
+            {PRIORITY_LABELS[task.priority]}
+        </span>
+    ) : null;
+    const ownTags = task.tags ?? [];
+    const parentTags = (inheritedTags.get(task.id) ?? []).filter(tag => !ownTags.includes(tag));
+    const tagChips = ownTags.length + parentTags.length > 0 ? (
+        <>
+            {ownTags.map(tag => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-violet-500/10 text-violet-300 border border-violet-500/20">{tag}</span>
+            ))}
+            {parentTags.map(tag => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full text-violet-300/60 border border-dashed border-violet-500/20" title="Inherited from a parent task">{tag}</span>
+            ))}
+        </>
+    ) : null;
+    const openBlockers = blockers.get(task.id);
+    const blockedBadge = openBlockers && !isCompleted ? (
+        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-300 border border-amber-500/30" title={`Waiting on: ${openBlockers.map(blocker => blocker.title).join(', ')}`}>
+            Blocked
+        </span>
+    ) : null;
+    const scheduleWidget = task.type === TaskType.Todo ? <ScheduleWidget task={task} now={now} onSetSchedule={handlers.onSetSchedule} /> : null;
 
     const renderMindmapNode = () => (
         <div style={style} className="absolute transition-all duration-500 ease-in-out group">
              <div
                 data-task-id={task.id}
+                tabIndex={0}
+                onClick={handleSelectClick}
+                onMouseDown={handleSelectMouseDown}
                 className={`relative flex items-center gap-3 text-left p-3 pr-4 rounded-lg transition-all duration-200 border
                     w-64 min-h-[5rem] bg-slate-800/80
-                    ${borderStyle} ${isCompleted ? 'opacity-50' : ''}
+                    ${borderStyle} ${isCompleted ? 'opacity-50' : ''} ${matchRing}
+                    focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500
                 `}
             >
                 <Checkbox checked={isCompleted} onChange={handleToggleComplete} />
                 <div className="flex-grow">
                     {isEditing ? editor : <p className={`font-medium ${textStyle} text-base ${isCompleted ? 'line-through text-slate-500' : ''}`}>{task.title}</p>}
+                    {!isEditing && (task.type === TaskType.Habit || pomodoroBadge || trackedTimeBadge || dueBadge || startBadge || priorityBadge || tagChips || blockedBadge || noteBadge) && (
+                        <div className="flex flex-wrap items-center gap-2 mt-1.5">
+                            {task.type === TaskType.Habit && <HabitHistoryWidget task={task} recurrence={task.recurrence ?? inheritedRecurrence.get(task.id)} weeks={14} />}
+                            {blockedBadge}
+                            {priorityBadge}
+                            {dueBadge}
+                            {startBadge}
+                            {tagChips}
+                            {noteBadge}
+                            {pomodoroBadge}
+                            {trackedTimeBadge}
+                        </div>
+                    )}
                 </div>
                 
                 <div 
@@ -133,10 +290,15 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
                 {/* Hover controls */}
                 {!isEditing && !isAddingSubtask && (
                     <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 flex items-center justify-center gap-2 p-1.5 bg-slate-900/80 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 backdrop-blur-sm border border-slate-700 z-20">
-                        <TimerWidget task={task} onSetTimer={handlers.onSetTimer} onTimerControl={handlers.onTimerControl} progress={timerProgress} />
+                        <TimerWidget task={task} onSetTimer={handlers.onSetTimer} onTimerControl={handlers.onTimerControl} onSetPomodoro={handlers.onSetPomodoro} />
+                        {task.type === TaskType.Habit && <RecurrenceWidget task={task} onSetRecurrence={handlers.onSetRecurrence} />}
+                        {scheduleWidget}
                         <div className="w-px h-5 bg-slate-600"></div>
                         <button onClick={() => setIsAddingSubtask(true)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md"><PlusIcon className="w-5 h-5" /></button>
                         <button onClick={() => setIsEditing(true)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md"><PencilIcon className="w-5 h-5" /></button>
+                        <button onClick={() => handlers.onOpenNotes(task.id)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md" title="Notes"><NoteIcon className="w-5 h-5" /></button>
+                        <button onClick={() => handlers.onDuplicate(task.id)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md" title="Duplicate"><DuplicateIcon className="w-5 h-5" /></button>
+                        <button onClick={() => handlers.onSaveTemplate(task.id)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-md" title="Save as template"><TemplateIcon className="w-5 h-5" /></button>
                         <button onClick={() => handlers.onDelete(task.id)} className="p-1.5 text-red-400 hover:text-white hover:bg-red-500 rounded-md"><TrashIcon className="w-5 h-5" /></button>
                     </div>
                 )}
@@ -163,12 +325,18 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
             {dropPosition && <div className={`absolute left-0 right-0 h-1 bg-sky-500 rounded-full z-10 ${dropPosition === 'top' ? '-top-1' : 'bottom-0'}`} />}
             <div 
                 ref={itemRef}
+                tabIndex={0}
+                data-outline-row={task.id}
+                onKeyDown={handleRowKeyDown}
+                onClick={handleSelectClick}
+                onMouseDown={handleSelectMouseDown}
                 draggable={true}
                 onDragStart={(e) => handlers.onDragStart(e, task)}
                 onDragEnd={handlers.onDragEnd}
                 className={`group relative flex items-start gap-3 p-3 rounded-lg transition-all duration-200 border-l-4 ${borderStyle}
-                    ${isCompleted ? 'bg-slate-800/60' : `${bgStyle} hover:bg-slate-700/80`}
-                    ${dropPosition === 'child' ? 'outline outline-2 outline-sky-500' : 'border-slate-700/80'}`}
+                    ${isSelected ? 'bg-sky-500/10' : isCompleted ? 'bg-slate-800/60' : `${bgStyle} hover:bg-slate-700/80`}
+                    ${dropPosition === 'child' ? 'outline outline-2 outline-sky-500' : 'border-slate-700/80'} ${matchRing}
+                    focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500`}
             >
                 <div className="flex-shrink-0 flex items-center -ml-2 mt-0.5">
                     <span className="cursor-grab opacity-0 group-hover:opacity-100 transition-opacity"><DragHandleIcon className="w-5 h-5 text-slate-500" /></span>
@@ -185,10 +353,19 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
                 <Checkbox checked={isCompleted} onChange={handleToggleComplete} />
                 <div className="flex-grow">
                     <p className={`${textStyle} ${isCompleted ? 'line-through text-slate-500' : ''}`}>{task.title}</p>
-                    <div className="flex items-center gap-3 mt-1.5">
+                    <div className="flex flex-wrap items-center gap-3 mt-1.5">
                         <span className={`text-xs font-bold uppercase px-2 py-0.5 rounded-full ${task.type === 'habit' ? 'bg-teal-500/10 text-teal-400 border border-teal-500/20' : 'bg-sky-500/10 text-sky-400 border border-sky-500/20'}`}>
                             {task.type}
                         </span>
+                        {task.type === TaskType.Habit && <HabitHistoryWidget task={task} recurrence={task.recurrence ?? inheritedRecurrence.get(task.id)} />}
+                        {blockedBadge}
+                        {priorityBadge}
+                        {dueBadge}
+                        {startBadge}
+                        {tagChips}
+                        {noteBadge}
+                        {pomodoroBadge}
+                        {trackedTimeBadge}
                         {progress && (
                             <div className="flex items-center gap-2">
                                 <div className="w-24 h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -200,16 +377,22 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
                     </div>
                 </div>
                 <div className="flex-shrink-0 flex items-center gap-1">
-                    <TimerWidget task={task} onSetTimer={handlers.onSetTimer} onTimerControl={handlers.onTimerControl} progress={timerProgress} />
+                    {task.type === TaskType.Habit && <RecurrenceWidget task={task} onSetRecurrence={handlers.onSetRecurrence} />}
+                    {scheduleWidget}
+                    <TimerWidget task={task} onSetTimer={handlers.onSetTimer} onTimerControl={handlers.onTimerControl} onSetPomodoro={handlers.onSetPomodoro} />
                     <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                         <button onClick={() => setIsAddingSubtask(true)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-600 rounded"><PlusIcon className="w-4 h-4" /></button>
                         <button onClick={() => setIsEditing(true)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-600 rounded"><PencilIcon className="w-4 h-4" /></button>
+                        <button onClick={() => handlers.onOpenNotes(task.id)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-600 rounded" title="Notes"><NoteIcon className="w-4 h-4" /></button>
+                        <button onClick={() => handlers.onDuplicate(task.id)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-600 rounded" title="Duplicate"><DuplicateIcon className="w-4 h-4" /></button>
+                        <button onClick={() => handlers.onSaveTemplate(task.id)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-600 rounded" title="Save as template"><TemplateIcon className="w-4 h-4" /></button>
                         <button onClick={() => handlers.onDelete(task.id)} className="p-1 text-red-400 hover:text-white hover:bg-red-500 rounded"><TrashIcon className="w-4 h-4" /></button>
                     </div>
                 </div>
             </div>
             {viewMode === 'list' && editor}
             {viewMode === 'list' && subtaskEditor}
+            {viewMode === 'list' && siblingEditor}
         </div>
     );
 
@@ -220,7 +403,7 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
     return (
         <div className="relative">
             {renderListItem()}
-            {!task.collapsed && task.children.length > 0 && (
+            {!hideChildren && !task.collapsed && task.children.length > 0 && (
                 <div>
                     {task.children.map(child => (
                         <TaskItem
@@ -228,6 +411,14 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
                             task={child}
                             depth={depth + 1}
                             viewMode={viewMode}
+                            trackedTime={trackedTime}
+                            highlightedIds={highlightedIds}
+                            focusedTaskId={focusedTaskId}
+                            selectedIds={selectedIds}
+                            inheritedTags={inheritedTags}
+                            inheritedRecurrence={inheritedRecurrence}
+                            blockers={blockers}
+                            templates={templates}
                             onStartDrawingConnection={onStartDrawingConnection}
                             {...handlers}
                         />
@@ -238,6 +429,11 @@ const TaskItem: React.FC<TaskItemProps> = (props) => {
     );
 };
 
+// Focuses a list row once React has rendered it, since moving a task across parents remounts it.
+const focusRow = (id: string) => {
+    requestAnimationFrame(() => document.querySelector<HTMLElement>(`[data-outline-row="${id}"]`)?.focus());
+};
+
 const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60).toString().padStart(2, '0');
     const secs = (seconds % 60).toString().padStart(2, '0');
@@ -246,34 +442,57 @@ const formatTime = (seconds: number): string => {
 
 const Editor: React.FC<{
     isSubtask: boolean;
-    onSave: (title: string, type: TaskType) => void;
+    onSave: (title: string, type: TaskType, priority: Priority | undefined, tags: string[] | undefined) => void;
     onCancel: () => void;
     task: Task;
-   }> = ({ isSubtask, onSave, onCancel, task }) => {
+    templates?: TaskTemplate[]; // offered instead of a title when adding a subtask
+    onInsertTemplate?: (templateId: string) => void;
+   }> = ({ isSubtask, onSave, onCancel, task, templates, onInsertTemplate }) => {
     const [title, setTitle] = useState(isSubtask ? '' : task.title);
     const [type, setType] = useState<TaskType>(isSubtask ? TaskType.Todo : task.type);
+    const [priority, setPriority] = useState<Priority | ''>(isSubtask ? '' : task.priority ?? '');
+    const [tagsInput, setTagsInput] = useState(isSubtask ? '' : (task.tags ?? []).join(' '));
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => { inputRef.current?.focus(); }, []);
     
-    const handleSave = () => { if (title.trim()) { onSave(title, type); }};
+    const handleSave = () => {
+        if (!title.trim()) return;
+        const tags = parseTags(tagsInput);
+        onSave(title, type, priority || undefined, tags.length > 0 ? tags : undefined);
+    };
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') handleSave();
         if (e.key === 'Escape') onCancel();
     };
+    const fieldClass = "bg-slate-700 text-sm border border-slate-500 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-sky-500";
     
     return (
-        <div className="flex items-center gap-2 p-2 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-md relative z-20 w-80">
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-slate-900/80 backdrop-blur-sm border border-slate-700 rounded-md relative z-20 w-80">
             <input 
                 ref={inputRef} value={title} onChange={(e) => setTitle(e.target.value)} onKeyDown={handleKeyDown}
-                className="flex-grow bg-slate-700 text-sm border border-slate-500 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                className={`flex-grow ${fieldClass}`}
                 placeholder={isSubtask ? "New subtask title..." : "Edit task title..."}
             />
-             <select value={type} onChange={(e) => setType(e.target.value as TaskType)}
-                className="bg-slate-700 text-sm border border-slate-500 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-sky-500" >
+             <select value={type} onChange={(e) => setType(e.target.value as TaskType)} className={fieldClass}>
                 <option value={TaskType.Todo}>Todo</option>
                 <option value={TaskType.Habit}>Habit</option>
             </select>
+            <select value={priority} onChange={(e) => setPriority(e.target.value as Priority | '')} className={fieldClass} title="Priority">
+                <option value="">No priority</option>
+                {Object.values(Priority).map(level => <option key={level} value={level}>{PRIORITY_LABELS[level]}</option>)}
+            </select>
+            <input
+                value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} onKeyDown={handleKeyDown}
+                className={`flex-grow min-w-0 ${fieldClass}`}
+                placeholder="Tags: #work @home"
+            />
+            {onInsertTemplate && templates && templates.length > 0 && (
+                <select value="" onChange={(e) => onInsertTemplate(e.target.value)} className={`w-full ${fieldClass}`}>
+                    <option value="" disabled>Or add from template…</option>
+                    {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                </select>
+            )}
             <button onClick={handleSave} className="px-2 py-1 text-xs font-semibold bg-sky-600 hover:bg-sky-500 rounded text-white">Save</button>
             <button onClick={onCancel} className="px-2 py-1 text-xs font-semibold bg-slate-600 hover:bg-slate-500 rounded">Cancel</button>
         </div>
@@ -282,12 +501,17 @@ const Editor: React.FC<{
 
 const TimerWidget: React.FC<{
     task: Task;
-    progress: number;
     onSetTimer: (id: string, duration: number) => void;
     onTimerControl: (id: string, control: 'start' | 'pause' | 'reset' | 'extend') => void;
-}> = ({ task, progress, onSetTimer, onTimerControl }) => {
+    onSetPomodoro: (id: string, settings: PomodoroSettings) => void;
+}> = ({ task, onSetTimer, onTimerControl, onSetPomodoro }) => {
     const [isPopoverOpen, setPopoverOpen] = useState(false);
+    // Only a running timer needs to re-render every second; the stored task does not change.
+    const now = useNow(task.timerState === TimerState.Running);
+    const remaining = getTimerRemaining(task, now);
+    const progress = task.timerDuration ? 100 - (remaining / task.timerDuration * 100) : 0;
     const [customMinutes, setCustomMinutes] = useState('');
+    const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings>(task.pomodoro?.settings ?? DEFAULT_POMODORO_SETTINGS);
     const customInputRef = useRef<HTMLInputElement>(null);
 
     const presets = [ {label: '5m', seconds: 300}, {label: '15m', seconds: 900}, {label: '30m', seconds: 1800}, {label: '1hr', seconds: 3600}];
@@ -318,6 +542,19 @@ const TimerWidget: React.FC<{
         }
     };
 
+    const pomodoroFields: { key: keyof PomodoroSettings; label: string }[] = [
+        { key: 'workMinutes', label: 'Focus' },
+        { key: 'shortBreakMinutes', label: 'Break' },
+        { key: 'longBreakMinutes', label: 'Long' },
+        { key: 'cyclesBeforeLongBreak', label: 'Cycles' },
+    ];
+
+    const handleStartPomodoro = () => {
+        if (pomodoroFields.some(field => !(pomodoroSettings[field.key] > 0))) return;
+        onSetPomodoro(task.id, pomodoroSettings);
+        setPopoverOpen(false);
+    };
+
     if (!hasTimer) {
         return (
             <div className="relative">
@@ -349,6 +586,29 @@ const TimerWidget: React.FC<{
                                 Set Custom
                             </button>
                         </div>
+                        <div className="mt-2 pt-2 border-t border-slate-600">
+                            <p className="px-1 pb-2 text-xs text-slate-400">Pomodoro (minutes)</p>
+                            <div className="grid grid-cols-4 gap-1">
+                                {pomodoroFields.map(field => (
+                                    <label key={field.key} className="flex flex-col text-[10px] text-slate-400">
+                                        {field.label}
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={pomodoroSettings[field.key] || ''}
+                                            onChange={(e) => setPomodoroSettings(prev => ({ ...prev, [field.key]: parseInt(e.target.value, 10) }))}
+                                            className="w-full bg-slate-800 border border-slate-600 rounded-md px-1.5 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-sky-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                            <button
+                                onClick={handleStartPomodoro}
+                                className="mt-2 w-full px-3 py-1 text-xs font-semibold bg-rose-600 hover:bg-rose-500 rounded text-white"
+                            >
+                                Pomodoro Mode
+                            </button>
+                        </div>
                     </div>
                 )}
             </div>
@@ -368,7 +628,15 @@ const TimerWidget: React.FC<{
                 </div>
             </div>
             <div className="flex items-center gap-2">
-                <span className={`font-mono text-sm ${task.timerState === TimerState.Finished ? 'text-teal-400' : 'text-slate-300'}`}>{formatTime(task.timerRemaining ?? 0)}</span>
+                {task.pomodoro && (
+                    <span
+                        className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${task.pomodoro.phase === PomodoroPhase.Work ? 'bg-rose-500/15 text-rose-300' : 'bg-teal-500/15 text-teal-300'}`}
+                        title={`Cycle ${task.pomodoro.cycle + 1} of ${task.pomodoro.settings.cyclesBeforeLongBreak}`}
+                    >
+                        {PHASE_LABELS[task.pomodoro.phase]}
+                    </span>
+                )}
+                <span className={`font-mono text-sm ${task.timerState === TimerState.Finished ? 'text-teal-400' : 'text-slate-300'}`}>{formatTime(remaining)}</span>
                 {task.timerState === TimerState.Finished ? (
                      <button onClick={() => onTimerControl(task.id, 'extend')} className="text-teal-400 hover:text-teal-300" title="Extend Timer"><PlusCircleIcon className="w-5 h-5" /></button>
                 ) : (
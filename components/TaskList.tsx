@@ -1,109 +1,160 @@
-import React, { useRef, useState, useMemo, useEffect, useCallback } from 'react';
-import { Task, TaskType, ViewMode } from '../types';
+import React, { useRef, useState, useMemo, useEffect, useLayoutEffect, useCallback } from 'react';
+import { Connection, Connections, ConnectionType, MindmapLayout, MindmapTransform, PomodoroSettings, Priority, Recurrence, Task, TaskTemplate, TaskType, ViewMode } from '../types';
 import TaskItem from './TaskItem';
-import { RotateCcwIcon } from './Icons';
+import ConnectionEditor from './ConnectionEditor';
+import Minimap from './Minimap';
+import { DownloadIcon, RotateCcwIcon } from './Icons';
+import useNow from '../hooks/useNow';
+import { collectDueTasks } from '../services/schedule';
+import { downloadFile, fileDateStamp } from '../services/download';
+import { clampPngScale, renderMindmapSvg, svgToPng } from '../services/mindmapExport';
+import { connectionCurve, curveBounds, curveMidpoint, curvePath, hierarchyCurve, LAYOUT_LABELS, layoutMindmap, MindmapLayoutResult, NAVIGATION_KEYS, NodePosition, NodeSize, outgoingAnchor, Point } from '../services/mindmapLayout';
 
 type DropPosition = 'top' | 'bottom' | 'child';
+type MoveDirection = 'up' | 'down' | 'indent' | 'outdent';
 
 interface TaskHandlers {
   onToggleComplete: (id: string, completed: boolean) => void;
   onToggleCollapse: (id: string) => void;
   onDelete: (id: string) => void;
-  onUpdate: (id: string, title: string, type: TaskType) => void;
+  onUpdate: (id: string, title: string, type: TaskType, priority: Priority | undefined, tags: string[] | undefined) => void;
   onAddSubtask: (parentId: string, title: string, type: TaskType) => void;
   onSetTimer: (id: string, duration: number) => void;
   onTimerControl: (id: string, control: 'start' | 'pause' | 'reset' | 'extend') => void;
+  onSetPomodoro: (id: string, settings: PomodoroSettings) => void;
+  onSetRecurrence: (id: string, recurrence: Recurrence | undefined) => void;
+  onSetSchedule: (id: string, startDate: string | undefined, dueDate: string | undefined) => void;
   onDragStart: (e: React.DragEvent, task: Task) => void;
   onDragEnd: (e: React.DragEvent) => void;
   onDrop: (e: React.DragEvent, targetTask: Task, position: DropPosition) => void;
+  onMoveTask: (id: string, direction: MoveDirection) => void;
+  onAddSibling: (siblingId: string, title: string, type: TaskType) => void;
   onAddConnection: (sourceId: string, targetId: string) => void;
+  onUpdateConnection: (sourceId: string, targetId: string, type: ConnectionType, label: string | undefined) => void;
   onDeleteConnection: (sourceId: string, targetId: string) => void;
+  onSelect: (id: string, mode: 'toggle' | 'range') => void;
+  onSelectMany: (ids: string[], additive: boolean) => void;
+  onDuplicate: (id: string) => void;
+  onSaveTemplate: (id: string) => void;
+  onInsertTemplate: (templateId: string, parentId: string | null) => void;
+  onOpenNotes: (id: string) => void;
 }
 
 interface TaskListProps extends TaskHandlers {
   tasks: Task[];
-  connections: { [sourceId: string]: string[] };
+  connections: Connections;
+  trackedTime: Map<string, number>; // seconds per task id, rolled up through children
+  highlightedIds: Set<string>; // search matches
+  focusedTaskId: string | null;
+  selectedIds: Set<string>;
+  inheritedTags: Map<string, string[]>;
+  inheritedRecurrence: Map<string, Recurrence>;
+  blockers: Map<string, Task[]>;
+  templates: TaskTemplate[];
   viewMode: ViewMode;
+  mindmapLayout: MindmapLayout;
+  onMindmapLayoutChange: (layout: MindmapLayout) => void;
+  mindmapTransform?: MindmapTransform; // where the view was left; restored instead of fitting
+  onMindmapTransformChange: (transform: MindmapTransform) => void;
 }
 
-const NODE_WIDTH = 256; // w-64
-const NODE_HEIGHT = 80;  // min-h-[5rem] -> approx 80px
-const H_SPACING = 120;
-const V_SPACING = 60; // Increased spacing for clarity
-
-type NodePosition = { task: Task; x: number; y: number; depth: number; };
-
-// This hook implements a proper hierarchical tree layout algorithm.
-// It first calculates the total height of each subtree, then positions nodes
-// in a top-down pass to ensure parents are centered relative to their children.
-const useMindmapLayout = (tasks: Task[]): { positions: NodePosition[], width: number, height: number } => {
-    return useMemo(() => {
-        const positions: NodePosition[] = [];
-        const subtreeHeights = new Map<string, number>();
-        let maxWidth = 0;
-        let maxHeight = 0;
-
-        // Pass 1: Post-order traversal to calculate subtree heights
-        function calculateSubtreeHeight(task: Task): number {
-            if (subtreeHeights.has(task.id)) {
-                return subtreeHeights.get(task.id)!;
-            }
 
-            if (task.collapsed || task.children.length === 0) {
-                const height = NODE_HEIGHT;
-                subtreeHeights.set(task.id, height);
-                return height;
-            }
+// Each connection type gets its own line: dashed for loose relations, arrows for sequences,
+// and a heavier amber arrow for dependencies that are still holding their target up.
+const connectionStyles: { [type in ConnectionType]: { className: string; dashArray?: string; marker?: string } } = {
+    [ConnectionType.RelatesTo]: { className: 'stroke-slate-500', dashArray: '6 4' },
+    [ConnectionType.Follows]: { className: 'stroke-sky-600', marker: 'url(#arrowhead-follows)' },
+    [ConnectionType.Blocks]: { className: 'stroke-amber-500 stroke-[3px]', marker: 'url(#arrowhead-blocks)' },
+};
 
-            const childrenHeight = task.children
-                .map(calculateSubtreeHeight)
-                .reduce((sum, h) => sum + h, 0);
-            
-            const height = childrenHeight + (task.children.length - 1) * V_SPACING;
-            subtreeHeights.set(task.id, height);
-            return height;
-        }
+const useMindmapLayout = (tasks: Task[], layout: MindmapLayout, sizes: Map<string, NodeSize>): MindmapLayoutResult =>
+    useMemo(() => layoutMindmap(tasks, layout, sizes), [tasks, layout, sizes]);
 
-        tasks.forEach(calculateSubtreeHeight);
-
-        // Pass 2: Pre-order traversal to calculate final positions
-        function layout(task: Task, depth: number, startY: number): void {
-            const subtreeHeight = subtreeHeights.get(task.id)!;
-            const x = depth * (NODE_WIDTH + H_SPACING);
-            const y = startY + (subtreeHeight / 2) - (NODE_HEIGHT / 2);
-            positions.push({ task, x, y, depth });
-
-            maxWidth = Math.max(maxWidth, x + NODE_WIDTH);
-            maxHeight = Math.max(maxHeight, y + NODE_HEIGHT);
-            
-            if (!task.collapsed && task.children.length > 0) {
-                let childStartY = startY;
-                for (const child of task.children) {
-                    layout(child, depth + 1, childStartY);
-                    childStartY += subtreeHeights.get(child.id)! + V_SPACING;
-                }
-            }
-        }
+// Only nodes and lines near the viewport are rendered. The rendered region is padded by half a
+// screen on each side and snapped to this grid, so panning re-renders only when it crosses a cell.
+const CULL_GRID = 500;
 
-        let currentY = 0;
-        for (const task of tasks) {
-            layout(task, 0, currentY);
-            currentY += subtreeHeights.get(task.id)! + V_SPACING * 2;
-        }
+const PNG_SCALES = [1, 2, 4];
 
-        return { positions, width: maxWidth, height: maxHeight };
-    }, [tasks]);
-};
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2;
+const ZOOM_STEP = 1.25; // per button press or +/- key
+const KEYBOARD_PAN = 80; // screen pixels per arrow key press
+const VIEW_MARGIN = 40; // kept around a node scrolled into view
+
+const clampScale = (scale: number) => Math.min(Math.max(MIN_SCALE, scale), MAX_SCALE);
 
+type Bounds = { left: number; top: number; right: number; bottom: number };
 
-const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connections, ...handlers }) => {
-    const { positions: nodePositions, width: canvasWidth, height: canvasHeight } = useMindmapLayout(tasks);
-    const [transform, setTransform] = useState({ x: 50, y: 50, scale: 1 });
+const boxBounds = ({ start, end }: { start: Point, end: Point }): Bounds => ({
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    right: Math.max(start.x, end.x),
+    bottom: Math.max(start.y, end.y),
+});
+
+// Nodes only re-render when their own props change, not on every pan or zoom frame.
+const MindmapNode = React.memo(({ x, y, ...props }: React.ComponentProps<typeof TaskItem> & { x: number; y: number }) => (
+    <TaskItem {...props} style={{ top: `${y}px`, left: `${x}px` }} />
+));
+
+const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connections, mindmapLayout, onMindmapLayoutChange, mindmapTransform, onMindmapTransformChange, ...handlers }) => {
+    const [nodeSizes, setNodeSizes] = useState<Map<string, NodeSize>>(new Map());
+    const { positions: nodePositions, width: canvasWidth, height: canvasHeight } = useMindmapLayout(tasks, mindmapLayout, nodeSizes);
+    const [transform, setTransform] = useState<MindmapTransform>(mindmapTransform ?? { x: 50, y: 50, scale: 1 });
+    const transformRef = useRef(transform);
+    transformRef.current = transform;
+    const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
     const [isPanning, setIsPanning] = useState(false);
+    const [isMinimapDragging, setIsMinimapDragging] = useState(false);
     const [panStart, setPanStart] = useState({ x: 0, y: 0 });
     const [drawingConnection, setDrawingConnection] = useState<{ sourceId: string, startX: number, startY: number, endX: number, endY: number } | null>(null);
+    const [editingConnection, setEditingConnection] = useState<{ sourceId: string, targetId: string } | null>(null);
+    const [selectionBox, setSelectionBox] = useState<{ start: Point, end: Point, additive: boolean } | null>(null);
+    const [showExport, setShowExport] = useState(false);
+    const [pngScale, setPngScale] = useState(2);
     const containerRef = useRef<HTMLDivElement>(null);
-    const didInitialFit = useRef(false);
+    const canvasRef = useRef<HTMLDivElement>(null);
+    const didInitialFit = useRef(Boolean(mindmapTransform));
+    const sizeObserver = useRef<ResizeObserver | null>(null);
+    const observedNodes = useRef(new Set<HTMLElement>());
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setViewSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(containerRef.current);
+        return () => observer.disconnect();
+    }, []);
+
+    // Long titles, badges and open editors make nodes taller than the default, so the layout uses
+    // each node's rendered size. Sizes of culled nodes are kept so panning back doesn't reflow.
+    useLayoutEffect(() => {
+        const observed = observedNodes.current;
+        const observer = new ResizeObserver(entries => {
+            setNodeSizes(prev => {
+                let next: Map<string, NodeSize> | null = null;
+                for (const entry of entries) {
+                    const el = entry.target as HTMLElement;
+                    const id = el.dataset.taskId;
+                    // offsetWidth/Height ignore the zoom transform; detached nodes report 0.
+                    const size = { width: el.offsetWidth, height: el.offsetHeight };
+                    if (!id || size.width === 0) continue;
+                    const known = prev.get(id);
+                    if (known && known.width === size.width && known.height === size.height) continue;
+                    next = next ?? new Map(prev);
+                    next.set(id, size);
+                }
+                return next ?? prev;
+            });
+        });
+        sizeObserver.current = observer;
+        return () => {
+            observer.disconnect();
+            observed.clear();
+        };
+    }, []);
 
     const handleFitToView = useCallback(() => {
         if (!containerRef.current || canvasWidth === 0 || canvasHeight === 0) {
@@ -139,27 +190,178 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
             handleFitToView();
             didInitialFit.current = true;
         }
-    }, [canvasWidth, canvasHeight, handleFitToView]);
+    }, [canvasWidth, canvasHeight, handleFitToView, mindmapLayout]);
+
+    // Report where the view settles, so the workspace reopens there.
+    useEffect(() => {
+        const timeout = setTimeout(() => onMindmapTransformChange(transform), 500);
+        return () => clearTimeout(timeout);
+    }, [transform, onMindmapTransformChange]);
+
+    // Exports the whole map from the layout, not the DOM, since only part of it is rendered.
+    const handleExport = async (format: 'svg' | 'png') => {
+        setShowExport(false);
+        const { svg, width, height } = renderMindmapSvg(nodePositions, connections, mindmapLayout, { width: canvasWidth, height: canvasHeight }, handlers.blockers);
+        if (format === 'svg') {
+            downloadFile(`habit-tracker-mindmap-${fileDateStamp()}.svg`, svg, 'image/svg+xml');
+            return;
+        }
+        const scale = clampPngScale(width, height, pngScale);
+        if (scale < pngScale && !confirm(`The mindmap is too large for a ${pngScale}x PNG. Export it at ${scale.toFixed(2)}x instead?`)) return;
+        try {
+            downloadFile(`habit-tracker-mindmap-${fileDateStamp()}.png`, await svgToPng(svg, width, height, scale), 'image/png');
+        } catch (error) {
+            alert(`Could not export the mindmap: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    // A new layout moves everything, so fit it once like the initial one.
+    const handleLayoutChange = (layout: MindmapLayout) => {
+        didInitialFit.current = false;
+        setEditingConnection(null);
+        onMindmapLayoutChange(layout);
+    };
+
+    // Pan to the focused search match, zooming in if the map is too small to read.
+    useEffect(() => {
+        if (!handlers.focusedTaskId || !containerRef.current) return;
+        const position = nodePositions.find(p => p.task.id === handlers.focusedTaskId);
+        if (!position) return;
+        const { width: viewWidth, height: viewHeight } = containerRef.current.getBoundingClientRect();
+        setTransform(t => {
+            const scale = Math.max(t.scale, 1);
+            return {
+                x: viewWidth / 2 - (position.x + position.width / 2) * scale,
+                y: viewHeight / 2 - (position.y + position.height / 2) * scale,
+                scale,
+            };
+        });
+        // Only re-center when the focus moves, not on every layout change.
+    }, [handlers.focusedTaskId]);
+
+    // Zooms keeping the given screen point (the view's center by default) still.
+    const zoomTo = (scale: number, anchor: Point = { x: viewSize.width / 2, y: viewSize.height / 2 }) => {
+        setTransform(t => {
+            const newScale = clampScale(scale);
+            return {
+                x: anchor.x - (anchor.x - t.x) * (newScale / t.scale),
+                y: anchor.y - (anchor.y - t.y) * (newScale / t.scale),
+                scale: newScale,
+            };
+        });
+    };
 
     const handleWheel = (e: React.WheelEvent) => {
         e.preventDefault();
-        const scaleAmount = -e.deltaY * 0.001;
-        const newScale = Math.min(Math.max(0.2, transform.scale + scaleAmount), 2);
-        
         if (!containerRef.current) return;
         const rect = containerRef.current.getBoundingClientRect();
-        const mouseX = e.clientX - rect.left;
-        const mouseY = e.clientY - rect.top;
+        zoomTo(transform.scale - e.deltaY * 0.001, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+
+    const centerOn = useCallback((center: Point) => {
+        setTransform(t => ({ ...t, x: viewSize.width / 2 - center.x * t.scale, y: viewSize.height / 2 - center.y * t.scale }));
+    }, [viewSize]);
+
+    // Pans just enough to bring a node fully into view.
+    const scrollIntoView = (position: NodePosition) => {
+        setTransform(t => {
+            const left = position.x * t.scale + t.x;
+            const top = position.y * t.scale + t.y;
+            const right = left + position.width * t.scale;
+            const bottom = top + position.height * t.scale;
+            const dx = left < VIEW_MARGIN ? VIEW_MARGIN - left : right > viewSize.width - VIEW_MARGIN ? Math.max(VIEW_MARGIN - left, viewSize.width - VIEW_MARGIN - right) : 0;
+            const dy = top < VIEW_MARGIN ? VIEW_MARGIN - top : bottom > viewSize.height - VIEW_MARGIN ? Math.max(VIEW_MARGIN - top, viewSize.height - VIEW_MARGIN - bottom) : 0;
+            return dx === 0 && dy === 0 ? t : { ...t, x: t.x + dx, y: t.y + dy };
+        });
+    };
 
-        const newX = mouseX - (mouseX - transform.x) * (newScale / transform.scale);
-        const newY = mouseY - (mouseY - transform.y) * (newScale / transform.scale);
+    // Parents and sibling lists of the displayed tree, for moving between nodes with the keyboard.
+    const treeLinks = useMemo(() => {
+        const parents = new Map<string, Task>();
+        const siblings = new Map<string, Task[]>();
+        const visit = (list: Task[], parent?: Task) => list.forEach(task => {
+            if (parent) parents.set(task.id, parent);
+            siblings.set(task.id, list);
+            if (!task.collapsed) visit(task.children, task);
+        });
+        visit(tasks);
+        return { parents, siblings };
+    }, [tasks]);
 
-        setTransform({ x: newX, y: newY, scale: newScale });
+    const focusNode = (id: string) => {
+        const position = nodePositions.find(p => p.task.id === id);
+        if (!position) return;
+        scrollIntoView(position);
+        // The node may only be rendered once the view has moved.
+        requestAnimationFrame(() => canvasRef.current?.querySelector<HTMLElement>(`[data-task-id="${id}"]`)?.focus({ preventScroll: true }));
+    };
+
+    // Arrows move between nodes when one is focused and pan otherwise; Shift+arrows always pan.
+    // +/- zoom, 0 resets to 100% and F fits the map.
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+        const nodeId = target.closest('[data-task-id]')?.getAttribute('data-task-id');
+        const keys = NAVIGATION_KEYS[mindmapLayout];
+        const panKeys: { [key: string]: Point } = { ArrowLeft: { x: 1, y: 0 }, ArrowRight: { x: -1, y: 0 }, ArrowUp: { x: 0, y: 1 }, ArrowDown: { x: 0, y: -1 } };
+
+        if (nodeId && !e.shiftKey && e.key in panKeys) {
+            e.preventDefault();
+            const task = nodePositions.find(p => p.task.id === nodeId)?.task;
+            if (!task) return;
+            const siblings = treeLinks.siblings.get(nodeId) ?? [];
+            const index = siblings.findIndex(sibling => sibling.id === nodeId);
+            if (e.key === keys.parent) {
+                const parent = treeLinks.parents.get(nodeId);
+                if (parent) focusNode(parent.id);
+            } else if (e.key === keys.child) {
+                if (task.children.length === 0) return;
+                if (task.collapsed) handlers.onToggleCollapse(task.id);
+                else focusNode(task.children[0].id);
+            } else if (e.key === keys.previous && index > 0) {
+                focusNode(siblings[index - 1].id);
+            } else if (e.key === keys.next && index < siblings.length - 1) {
+                focusNode(siblings[index + 1].id);
+            }
+            return;
+        }
+        if (e.key in panKeys) {
+            e.preventDefault();
+            const { x, y } = panKeys[e.key];
+            setTransform(t => ({ ...t, x: t.x + x * KEYBOARD_PAN, y: t.y + y * KEYBOARD_PAN }));
+        } else if (e.key === '+' || e.key === '=') {
+            e.preventDefault();
+            zoomTo(transform.scale * ZOOM_STEP);
+        } else if (e.key === '-') {
+            e.preventDefault();
+            zoomTo(transform.scale / ZOOM_STEP);
+        } else if (e.key === '0') {
+            e.preventDefault();
+            zoomTo(1);
+        } else if (e.key === 'f' || e.key === 'F') {
+            e.preventDefault();
+            handleFitToView();
+        } else if (e.key === 'Escape' && nodeId) {
+            containerRef.current?.focus({ preventScroll: true });
+        }
+    };
+
+    const toCanvas = (e: React.MouseEvent): Point => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - rect.left - transform.x) / transform.scale, y: (e.clientY - rect.top - transform.y) / transform.scale };
     };
 
     const handleMouseDown = (e: React.MouseEvent) => {
         // Only pan when clicking the background
-        if (e.target !== e.currentTarget) return;
+        if (e.target !== e.currentTarget && e.target !== canvasRef.current) return;
+        setEditingConnection(null);
+        // Shift-drag draws a selection box instead; with Ctrl/Cmd as well it adds to the selection.
+        if (e.shiftKey) {
+            e.preventDefault();
+            const point = toCanvas(e);
+            setSelectionBox({ start: point, end: point, additive: e.ctrlKey || e.metaKey });
+            return;
+        }
         setIsPanning(true);
         setPanStart({ x: e.clientX - transform.x, y: e.clientY - transform.y });
         e.currentTarget.style.cursor = 'grabbing';
@@ -170,6 +372,9 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
             const newX = e.clientX - panStart.x;
             const newY = e.clientY - panStart.y;
             setTransform(t => ({ ...t, x: newX, y: newY }));
+        } else if (selectionBox) {
+            const end = toCanvas(e);
+            setSelectionBox(box => box ? { ...box, end } : null);
         } else if (drawingConnection && containerRef.current) {
             const rect = containerRef.current.getBoundingClientRect();
             const endX = (e.clientX - rect.left - transform.x) / transform.scale;
@@ -185,42 +390,52 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
                 containerRef.current.style.cursor = 'grab';
             }
         }
+        if (selectionBox) {
+            const { left, top, right, bottom } = boxBounds(selectionBox);
+            const ids = nodePositions
+                .filter(p => p.x < right && p.x + p.width > left && p.y < bottom && p.y + p.height > top)
+                .map(p => p.task.id);
+            handlers.onSelectMany(ids, selectionBox.additive);
+            setSelectionBox(null);
+        }
         if (drawingConnection) {
             const targetEl = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-task-id]');
             if (targetEl) {
                 const targetId = targetEl.getAttribute('data-task-id');
                 if (targetId && targetId !== drawingConnection.sourceId) {
                     handlers.onAddConnection(drawingConnection.sourceId, targetId);
+                    // Let the new connection be typed and labeled straight away.
+                    setEditingConnection({ sourceId: drawingConnection.sourceId, targetId });
                 }
             }
             setDrawingConnection(null);
         }
     };
     
-    const handleStartDrawingConnection = (sourceTask: Task, e: React.MouseEvent) => {
+    // Stable so the memoized nodes don't re-render while panning.
+    const handleStartDrawingConnection = useCallback((sourceTask: Task, e: React.MouseEvent) => {
         e.preventDefault();
         e.stopPropagation();
         if (!containerRef.current) return;
         
-        const posMap = new Map(nodePositions.map(p => [p.task.id, p]));
-        const sourcePos = posMap.get(sourceTask.id);
+        const sourcePos = nodePositions.find(p => p.task.id === sourceTask.id);
         if (!sourcePos) return;
 
-        const startX = sourcePos.x + NODE_WIDTH;
-        const startY = sourcePos.y + NODE_HEIGHT / 2;
+        const { x: startX, y: startY } = outgoingAnchor(sourcePos, mindmapLayout);
 
         const rect = containerRef.current.getBoundingClientRect();
-        const endX = (e.clientX - rect.left - transform.x) / transform.scale;
-        const endY = (e.clientY - rect.top - transform.y) / transform.scale;
+        const { x, y, scale } = transformRef.current;
+        const endX = (e.clientX - rect.left - x) / scale;
+        const endY = (e.clientY - rect.top - y) / scale;
 
         setDrawingConnection({ sourceId: sourceTask.id, startX, startY, endX, endY });
-    };
+    }, [nodePositions, mindmapLayout]);
 
     const connectorColors = ['stroke-slate-600', 'stroke-sky-600', 'stroke-teal-500', 'stroke-violet-500', 'stroke-rose-500'];
 
     const { hierarchicalConnectors, customConnectors } = useMemo(() => {
-        const hConnectors: { d: string, className: string }[] = [];
-        const cConnectors: { d: string, sourceId: string, targetId: string }[] = [];
+        const hConnectors: { id: string, d: string, className: string, bounds: Bounds }[] = [];
+        const cConnectors: { d: string, mid: { x: number, y: number }, bounds: Bounds, connection: Connection, sourceId: string, isBlocking: boolean }[] = [];
         const posMap = new Map(nodePositions.map(p => [p.task.id, p]));
         
         nodePositions.forEach(sourcePos => {
@@ -229,82 +444,138 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
                 sourcePos.task.children.forEach(child => {
                     const childPos = posMap.get(child.id);
                     if (childPos) {
-                        const startX = sourcePos.x + NODE_WIDTH;
-                        const startY = sourcePos.y + NODE_HEIGHT / 2;
-                        const endX = childPos.x;
-                        const endY = childPos.y + NODE_HEIGHT / 2;
-                        
-                        // S-curve for a clean horizontal-to-horizontal connection
-                        const curveFactor = (endX - startX) * 0.4;
-                        const d = `M ${startX} ${startY} C ${startX + curveFactor} ${startY}, ${endX - curveFactor} ${endY}, ${endX} ${endY}`;
-
+                        const curve = hierarchyCurve(sourcePos, childPos, mindmapLayout);
                         const className = connectorColors[childPos.depth % connectorColors.length];
-                        hConnectors.push({ d, className });
+                        hConnectors.push({ id: child.id, d: curvePath(curve), className, bounds: curveBounds(curve) });
                     }
                 });
             }
         });
         // Custom connections (flowchart-style) from the separate state
-        Object.entries(connections).forEach(([sourceId, targetIds]) => {
+        Object.entries<Connection[]>(connections).forEach(([sourceId, sourceConnections]) => {
             const sourcePos = posMap.get(sourceId);
             if (sourcePos) {
-                // FIX: Cast `targetIds` to `string[]` to resolve a TypeScript error where it was inferred as `unknown`.
-                (targetIds as string[]).forEach(targetId => {
+                sourceConnections.forEach(connection => {
+                     const { targetId } = connection;
                      const targetPos = posMap.get(targetId);
                      if (targetPos) {
-                        const startX = sourcePos.x + NODE_WIDTH;
-                        const startY = sourcePos.y + NODE_HEIGHT / 2;
-                        const endX = targetPos.x;
-                        const endY = targetPos.y + NODE_HEIGHT / 2;
-
-                        let d: string;
-                        // When connecting from a deeper node to a shallower one (right-to-left "backwards" connection),
-                        // use a large, non-intersecting arc to maintain clarity.
-                        if (sourcePos.depth > targetPos.depth) {
-                            const midPointY = (startY + endY) / 2;
-                            const verticalGap = 100;
-                            
-                            // Route the arc above the main diagram if the connection is mostly in the top half,
-                            // otherwise route it below to avoid clutter.
-                            const detourY = midPointY < canvasHeight / 2 
-                                ? -verticalGap 
-                                : canvasHeight + verticalGap;
-                            
-                            // The horizontal extent of the curve's control points, scales with distance.
-                            const controlPointXOffset = Math.max(60, (startX - endX) * 0.2);
-
-                            d = `M ${startX} ${startY} C ${startX + controlPointXOffset} ${detourY}, ${endX - controlPointXOffset} ${detourY}, ${endX} ${endY}`;
-                        } else {
-                            // For forward or same-level connections, a standard S-curve is cleaner and more direct.
-                            const curveFactor = (endX - startX) * 0.4;
-                            d = `M ${startX} ${startY} C ${startX + curveFactor} ${startY}, ${endX - curveFactor} ${endY}, ${endX} ${endY}`;
-                        }
-                        cConnectors.push({ d, sourceId: sourcePos.task.id, targetId });
+                        const curve = connectionCurve(sourcePos, targetPos, mindmapLayout, { width: canvasWidth, height: canvasHeight });
+                        const d = curvePath(curve);
+                        // The label sits halfway along the curve.
+                        const mid = curveMidpoint(curve);
+                        const isBlocking = handlers.blockers.get(targetId)?.some(blocker => blocker.id === sourceId) ?? false;
+                        cConnectors.push({ d, mid, bounds: curveBounds(curve), connection, sourceId, isBlocking });
                     }
                 })
             }
         });
         return { hierarchicalConnectors: hConnectors, customConnectors: cConnectors };
-    }, [nodePositions, connections, canvasHeight]);
+    }, [nodePositions, connections, mindmapLayout, canvasWidth, canvasHeight, handlers.blockers]);
+
+    const selectionBounds = selectionBox ? boxBounds(selectionBox) : null;
+
+    const editingConnector = editingConnection
+        ? customConnectors.find(c => c.sourceId === editingConnection.sourceId && c.connection.targetId === editingConnection.targetId)
+        : undefined;
+    const taskTitles = useMemo(() => new Map(nodePositions.map(p => [p.task.id, p.task.title])), [nodePositions]);
+
+    // Until the container has been measured everything is rendered.
+    let cullLeft = -Infinity, cullTop = -Infinity, cullRight = Infinity, cullBottom = Infinity;
+    if (viewSize.width > 0) {
+        const viewLeft = -transform.x / transform.scale;
+        const viewTop = -transform.y / transform.scale;
+        const viewWidth = viewSize.width / transform.scale;
+        const viewHeight = viewSize.height / transform.scale;
+        cullLeft = Math.floor((viewLeft - viewWidth / 2) / CULL_GRID) * CULL_GRID;
+        cullTop = Math.floor((viewTop - viewHeight / 2) / CULL_GRID) * CULL_GRID;
+        cullRight = Math.ceil((viewLeft + viewWidth * 1.5) / CULL_GRID) * CULL_GRID;
+        cullBottom = Math.ceil((viewTop + viewHeight * 1.5) / CULL_GRID) * CULL_GRID;
+    }
+
+    const visibleNodes = useMemo(
+        () => nodePositions.filter(p => p.x < cullRight && p.x + p.width > cullLeft && p.y < cullBottom && p.y + p.height > cullTop),
+        [nodePositions, cullLeft, cullTop, cullRight, cullBottom]
+    );
+
+    // Watch the rendered nodes' sizes, and let go of the ones that were culled.
+    useLayoutEffect(() => {
+        const observer = sizeObserver.current;
+        if (!observer || !canvasRef.current) return;
+        const observed = observedNodes.current;
+        observed.forEach(el => {
+            if (el.isConnected) return;
+            observer.unobserve(el);
+            observed.delete(el);
+        });
+        canvasRef.current.querySelectorAll<HTMLElement>('[data-task-id]').forEach(el => {
+            if (observed.has(el)) return;
+            observer.observe(el);
+            observed.add(el);
+        });
+    }, [visibleNodes]);
+
+    const connectorLayer = useMemo(() => {
+        const isVisible = ({ left, top, right, bottom }: Bounds) => left < cullRight && right > cullLeft && top < cullBottom && bottom > cullTop;
+        const visibleCustom = customConnectors.filter(connector => isVisible(connector.bounds));
+        return {
+            paths: (
+                <>
+                    {hierarchicalConnectors.filter(connector => isVisible(connector.bounds)).map(connector => (
+                        <path key={`h-${connector.id}`} d={connector.d} className={`transition-all duration-500 stroke-2 fill-none ${connector.className}`} />
+                    ))}
+                    {visibleCustom.map(({ d, connection, sourceId, isBlocking }) => {
+                        const lineStyle = connectionStyles[connection.type];
+                        // A dependency whose source is done no longer holds anything up.
+                        const isResolved = connection.type === ConnectionType.Blocks && !isBlocking;
+                        return (
+                            <g key={`c-${sourceId}-${connection.targetId}`} className="group pointer-events-auto cursor-pointer" onClick={() => setEditingConnection({ sourceId, targetId: connection.targetId })}>
+                                <path d={d} className="stroke-[10px] fill-none stroke-transparent" />
+                                <path
+                                    d={d}
+                                    strokeDasharray={lineStyle.dashArray}
+                                    className={`stroke-2 fill-none group-hover:stroke-sky-400 transition-all ${isResolved ? 'stroke-slate-500' : lineStyle.className}`}
+                                    markerEnd={isResolved ? 'url(#arrowhead)' : lineStyle.marker}
+                                />
+                            </g>
+                        );
+                    })}
+                </>
+            ),
+            labels: visibleCustom.filter(({ connection }) => connection.label).map(({ mid, connection, sourceId }) => (
+                <button
+                    key={`label-${sourceId}-${connection.targetId}`}
+                    onClick={() => setEditingConnection({ sourceId, targetId: connection.targetId })}
+                    style={{ left: mid.x, top: mid.y }}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 z-10 max-w-[10rem] truncate px-2 py-0.5 text-xs rounded-full bg-slate-800 border border-slate-600 text-slate-300 hover:text-white hover:border-sky-500"
+                >
+                    {connection.label}
+                </button>
+            )),
+        };
+    }, [hierarchicalConnectors, customConnectors, cullLeft, cullTop, cullRight, cullBottom]);
 
     return (
         <div 
           ref={containerRef}
-          className="w-full h-[80vh] overflow-hidden relative cursor-grab bg-slate-900/20"
+          tabIndex={0}
+          className="w-full h-[80vh] overflow-hidden relative cursor-grab bg-slate-900/20 focus:outline-none"
           onWheel={handleWheel}
+          onKeyDown={handleKeyDown}
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseLeave={handleMouseUp}
         >
             <div 
+              ref={canvasRef}
               className="absolute top-0 left-0"
               style={{
                   width: canvasWidth,
                   height: canvasHeight,
                   transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
                   transformOrigin: '0 0',
-                  transition: isPanning ? 'none' : 'transform 0.2s ease-out'
+                  willChange: 'transform',
+                  transition: isPanning || isMinimapDragging ? 'none' : 'transform 0.2s ease-out'
               }}
             >
                 <svg width={canvasWidth} height={canvasHeight} className="absolute top-0 left-0 pointer-events-none" style={{ overflow: 'visible' }}>
@@ -315,17 +586,15 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
                          <marker id="arrowhead-hover" markerWidth="10" markerHeight="7" refX="8" refY="3.5" orient="auto" markerUnits="strokeWidth">
                             <polygon points="0 0, 10 3.5, 0 7" className="fill-sky-400" />
                         </marker>
+                        <marker id="arrowhead-follows" markerWidth="10" markerHeight="7" refX="8" refY="3.5" orient="auto" markerUnits="strokeWidth">
+                            <polygon points="0 0, 10 3.5, 0 7" className="fill-sky-600" />
+                        </marker>
+                        <marker id="arrowhead-blocks" markerWidth="10" markerHeight="7" refX="8" refY="3.5" orient="auto" markerUnits="strokeWidth">
+                            <polygon points="0 0, 10 3.5, 0 7" className="fill-amber-500" />
+                        </marker>
                     </defs>
                     <g>
-                    {hierarchicalConnectors.map((connector, i) => (
-                        <path key={`h-${i}`} d={connector.d} className={`transition-all duration-500 stroke-2 fill-none ${connector.className}`} />
-                    ))}
-                    {customConnectors.map(({ d, sourceId, targetId }) => (
-                         <g key={`c-${sourceId}-${targetId}`} className="group pointer-events-auto cursor-pointer" onClick={() => handlers.onDeleteConnection(sourceId, targetId)}>
-                            <path d={d} className="stroke-[10px] fill-none stroke-transparent" />
-                            <path d={d} className="stroke-2 fill-none stroke-slate-500 stroke-dasharray-4 group-hover:stroke-sky-400 transition-all" markerEnd="url(#arrowhead)" />
-                        </g>
-                    ))}
+                    {connectorLayer.paths}
                     {drawingConnection && (
                         <path
                             d={`M ${drawingConnection.startX} ${drawingConnection.startY} L ${drawingConnection.endX} ${drawingConnection.endY}`}
@@ -335,32 +604,114 @@ const MindmapView: React.FC<Omit<TaskListProps, 'viewMode'>> = ({ tasks, connect
                     )}
                     </g>
                 </svg>
-                {nodePositions.map(({ task, x, y, depth }) => (
-                    <TaskItem 
+                {connectorLayer.labels}
+                {visibleNodes.map(({ task, x, y, depth }) => (
+                    <MindmapNode 
                         key={task.id}
                         task={task}
                         depth={depth}
                         viewMode="mindmap"
-                        style={{ top: `${y}px`, left: `${x}px` }}
+                        x={x}
+                        y={y}
                         onStartDrawingConnection={handleStartDrawingConnection}
                         {...handlers}
                     />
                 ))}
+                {selectionBounds && (
+                    <div
+                        className="absolute z-20 border border-sky-400 bg-sky-400/10 pointer-events-none"
+                        style={{ left: selectionBounds.left, top: selectionBounds.top, width: selectionBounds.right - selectionBounds.left, height: selectionBounds.bottom - selectionBounds.top }}
+                    />
+                )}
+            </div>
+            {editingConnector && (
+                <ConnectionEditor
+                    key={`${editingConnector.sourceId}-${editingConnector.connection.targetId}`}
+                    connection={editingConnector.connection}
+                    sourceTitle={taskTitles.get(editingConnector.sourceId) ?? ''}
+                    targetTitle={taskTitles.get(editingConnector.connection.targetId) ?? ''}
+                    style={{ left: editingConnector.mid.x * transform.scale + transform.x, top: editingConnector.mid.y * transform.scale + transform.y }}
+                    onSave={(type, label) => {
+                        handlers.onUpdateConnection(editingConnector.sourceId, editingConnector.connection.targetId, type, label);
+                        setEditingConnection(null);
+                    }}
+                    onDelete={() => {
+                        handlers.onDeleteConnection(editingConnector.sourceId, editingConnector.connection.targetId);
+                        setEditingConnection(null);
+                    }}
+                    onClose={() => setEditingConnection(null)}
+                />
+            )}
+            <select
+                value={mindmapLayout}
+                onChange={(e) => handleLayoutChange(e.target.value as MindmapLayout)}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="absolute top-4 right-28 z-10 bg-slate-700/50 hover:bg-slate-700 text-slate-300 text-sm rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-sky-500"
+                title="Layout"
+            >
+                {(Object.keys(LAYOUT_LABELS) as MindmapLayout[]).map(layout => (
+                    <option key={layout} value={layout}>{LAYOUT_LABELS[layout]}</option>
+                ))}
+            </select>
+            <div className="absolute top-4 right-16 z-20" onMouseDown={(e) => e.stopPropagation()}>
+                <button
+                    onClick={() => setShowExport(show => !show)}
+                    className="p-2 bg-slate-700/50 hover:bg-slate-700 rounded-full transition-colors text-slate-300 hover:text-white"
+                    title="Export Mindmap"
+                >
+                    <DownloadIcon className="w-5 h-5" />
+                </button>
+                {showExport && (
+                    <div className="absolute right-0 top-full mt-2 w-44 bg-slate-700 p-2 rounded-md shadow-lg text-sm space-y-1">
+                        <button onClick={() => handleExport('svg')} className="w-full text-left px-3 py-1.5 rounded hover:bg-slate-600">SVG image</button>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => handleExport('png')} className="flex-grow text-left px-3 py-1.5 rounded hover:bg-slate-600">PNG image</button>
+                            <select
+                                value={pngScale}
+                                onChange={(e) => setPngScale(Number(e.target.value))}
+                                className="bg-slate-800 border border-slate-600 rounded px-1 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-sky-500"
+                                title="PNG scale"
+                            >
+                                {PNG_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                            </select>
+                        </div>
+                    </div>
+                )}
             </div>
              <button
                 onClick={handleFitToView}
                 className="absolute top-4 right-4 z-10 p-2 bg-slate-700/50 hover:bg-slate-700 rounded-full transition-colors text-slate-300 hover:text-white"
-                title="Fit to View"
+                title="Fit to View (F)"
             >
                 <RotateCcwIcon className="w-5 h-5" />
             </button>
+            <div
+                className="absolute bottom-4 left-4 z-10 flex items-center bg-slate-700/50 rounded-full text-slate-300 text-sm"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <button onClick={() => zoomTo(transform.scale / ZOOM_STEP)} disabled={transform.scale <= MIN_SCALE} className="w-8 h-8 rounded-full hover:bg-slate-700 hover:text-white disabled:opacity-40" title="Zoom Out (-)">−</button>
+                <button onClick={() => zoomTo(1)} className="w-14 h-8 hover:text-white tabular-nums" title="Reset to 100% (0)">{Math.round(transform.scale * 100)}%</button>
+                <button onClick={() => zoomTo(transform.scale * ZOOM_STEP)} disabled={transform.scale >= MAX_SCALE} className="w-8 h-8 rounded-full hover:bg-slate-700 hover:text-white disabled:opacity-40" title="Zoom In (+)">+</button>
+            </div>
+            <Minimap
+                positions={nodePositions}
+                width={canvasWidth}
+                height={canvasHeight}
+                transform={transform}
+                viewSize={viewSize}
+                highlightedIds={handlers.highlightedIds}
+                onNavigate={centerOn}
+                onDragChange={setIsMinimapDragging}
+            />
         </div>
     );
 };
 
 
+// Rows are focusable: arrows move between tasks, Alt+arrows reorder, Tab/Shift+Tab indent and
+// outdent, Enter adds a sibling, Space toggles completion and F2 renames.
 const ListView: React.FC<Omit<TaskListProps, 'viewMode' | 'connections'>> = ({ tasks, ...handlers }) => (
-    <div>
+    <div data-outline>
       {tasks.map(task => (
         <TaskItem
           key={task.id}
@@ -373,6 +724,38 @@ const ListView: React.FC<Omit<TaskListProps, 'viewMode' | 'connections'>> = ({ t
     </div>
 );
 
+// Open tasks due today or overdue, each shown under its ancestor path and editable in place.
+const TodayView: React.FC<Omit<TaskListProps, 'viewMode' | 'connections'>> = ({ tasks, ...handlers }) => {
+    const now = useNow(true, 60 * 1000);
+    const dueTasks = useMemo(() => collectDueTasks(tasks, now), [tasks, now]);
+
+    if (dueTasks.length === 0) {
+        return (
+            <div className="text-center py-12">
+                <h3 className="text-lg font-semibold text-slate-400">Nothing due today</h3>
+                <p className="text-slate-500 mt-2">Tasks with a due date of today or earlier show up here.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {dueTasks.map(({ task, path }) => (
+                <div key={task.id} className="mb-3">
+                    {path.length > 0 && <p className="text-xs text-slate-500 px-1">{path.map(ancestor => ancestor.title).join(' › ')}</p>}
+                    <TaskItem
+                        task={task}
+                        depth={0}
+                        viewMode="list"
+                        hideChildren
+                        {...handlers}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
+
 const TaskList: React.FC<TaskListProps> = (props) => {
   if (props.tasks.length === 0) {
     return (
@@ -385,7 +768,7 @@ const TaskList: React.FC<TaskListProps> = (props) => {
 
   return (
     <div className="bg-slate-800/60 p-2 sm:p-4 rounded-xl border border-slate-700/80 relative">
-       {props.viewMode === 'mindmap' ? <MindmapView {...props} /> : <ListView {...props} />}
+       {props.viewMode === 'mindmap' ? <MindmapView {...props} /> : props.viewMode === 'today' ? <TodayView {...props} /> : <ListView {...props} />}
     </div>
   );
 };
@@ -0,0 +1,53 @@
+import React from 'react';
+import { TaskTemplate } from '../types';
+import { countTemplateTasks } from '../services/templates';
+
+interface TemplateLibraryProps {
+  templates: TaskTemplate[];
+  onInsert: (templateId: string) => void;
+  onRename: (templateId: string, name: string) => void;
+  onDelete: (templateId: string) => void;
+  onClose: () => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, onInsert, onRename, onDelete, onClose }) => {
+  const handleRename = (template: TaskTemplate) => {
+    const name = prompt('Rename template:', template.name)?.trim();
+    if (name) onRename(template.id, name);
+  };
+
+  const buttonClass = "px-2 py-1 text-xs font-semibold rounded bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-sky-400">Templates</h2>
+        {templates.length === 0 ? (
+          <p className="text-slate-400 mt-3 text-sm">No templates yet. Save any task and its subtasks as a template from the task's hover controls.</p>
+        ) : (
+          <ul className="mt-4 max-h-96 overflow-y-auto divide-y divide-slate-700">
+            {templates.map(template => {
+              const taskCount = countTemplateTasks(template);
+              return (
+                <li key={template.id} className="flex items-center gap-2 py-2">
+                  <div className="flex-grow min-w-0">
+                    <p className="text-slate-200 font-medium truncate">{template.name}</p>
+                    <p className="text-xs text-slate-500">{taskCount} task{taskCount === 1 ? '' : 's'} · saved {new Date(template.createdAt).toLocaleDateString()}</p>
+                  </div>
+                  <button onClick={() => onInsert(template.id)} className="px-2 py-1 text-xs font-semibold rounded bg-sky-600 hover:bg-sky-500 text-white transition-colors" title="Add as a new top-level task">Add</button>
+                  <button onClick={() => handleRename(template)} className={buttonClass}>Rename</button>
+                  <button onClick={() => onDelete(template.id)} className="px-2 py-1 text-xs font-semibold rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors">Delete</button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import { Task, TimerSession } from '../types';
+import { buildTimeReport, formatDuration, ReportGranularity } from '../services/timeLog';
+
+interface TimeReportProps {
+  tasks: Task[];
+  timeLog: TimerSession[];
+}
+
+const periodCounts: { [granularity in ReportGranularity]: number } = { day: 7, week: 8 };
+
+const TimeReport: React.FC<TimeReportProps> = ({ tasks, timeLog }) => {
+  const [granularity, setGranularity] = useState<ReportGranularity>('day');
+  const periods = useMemo(
+    () => buildTimeReport(tasks, timeLog, granularity, periodCounts[granularity], Date.now()),
+    [tasks, timeLog, granularity]
+  );
+  const grandTotal = periods.reduce((sum, period) => sum + period.total, 0);
+
+  const baseButtonClass = "px-3 py-1.5 text-xs font-semibold rounded-md transition-colors duration-200";
+  const activeClass = "bg-sky-600 text-white shadow-lg";
+  const inactiveClass = "bg-slate-700/50 hover:bg-slate-700 text-slate-300";
+
+  return (
+    <div className="bg-slate-800/60 p-4 rounded-xl border border-slate-700/80">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">Tracked time</h2>
+          <p className="text-sm text-slate-500">{formatDuration(grandTotal)} in the last {periodCounts[granularity]} {granularity === 'day' ? 'days' : 'weeks'}</p>
+        </div>
+        <div className="flex bg-slate-900/50 border border-slate-700 p-1 rounded-lg gap-1">
+          <button onClick={() => setGranularity('day')} className={`${baseButtonClass} ${granularity === 'day' ? activeClass : inactiveClass}`}>Per day</button>
+          <button onClick={() => setGranularity('week')} className={`${baseButtonClass} ${granularity === 'week' ? activeClass : inactiveClass}`}>Per week</button>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {periods.map(period => (
+          <div key={period.start} className="bg-slate-900/40 border border-slate-700/60 rounded-lg p-3">
+            <div className="flex justify-between items-baseline">
+              <span className="font-medium text-slate-300">{period.label}</span>
+              <span className="text-sm text-slate-400">
+                {period.total > 0 ? `${formatDuration(period.total)} · ${period.sessions} session${period.sessions === 1 ? '' : 's'}` : 'Nothing tracked'}
+              </span>
+            </div>
+            {period.rows.length > 0 && (
+              <div className="mt-2 space-y-1.5">
+                {period.rows.map(row => (
+                  <div key={row.rootId ?? 'deleted'} className="flex items-center gap-3 text-sm">
+                    <span className={`w-48 truncate ${row.rootId ? 'text-slate-300' : 'text-slate-500 italic'}`}>{row.title}</span>
+                    <div className="flex-grow h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-sky-500" style={{ width: `${(row.seconds / period.total) * 100}%` }}></div>
+                    </div>
+                    <span className="w-16 text-right text-xs text-slate-400">{formatDuration(row.seconds)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TimeReport;
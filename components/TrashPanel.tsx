@@ -0,0 +1,68 @@
+import React from 'react';
+import { TrashEntry } from '../types';
+import { countTasks, daysUntilPurge } from '../services/trash';
+
+interface TrashPanelProps {
+  entries: TrashEntry[]; // newest first
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  onRestore: (entryId: string) => void;
+  onDelete: (entryIds: string[]) => void; // permanently
+  onClose: () => void;
+}
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ entries, retentionDays, onRetentionDaysChange, onRestore, onDelete, onClose }) => {
+  const now = Date.now();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-sky-400">Trash</h2>
+        <label className="flex items-center gap-2 mt-2 text-sm text-slate-400">
+          Deleted tasks are kept for
+          <input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={(e) => {
+              const days = Math.floor(Number(e.target.value));
+              if (days >= 1) onRetentionDaysChange(days);
+            }}
+            className="w-16 bg-slate-900/70 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-1 focus:ring-sky-500"
+          />
+          days.
+        </label>
+        {entries.length === 0 ? (
+          <p className="text-slate-400 mt-4 text-sm">The trash is empty.</p>
+        ) : (
+          <ul className="mt-4 max-h-96 overflow-y-auto divide-y divide-slate-700">
+            {entries.map(entry => {
+              const taskCount = countTasks(entry.task);
+              const daysLeft = daysUntilPurge(entry, retentionDays, now);
+              return (
+                <li key={entry.id} className="flex items-center gap-2 py-2">
+                  <div className="flex-grow min-w-0">
+                    <p className="text-slate-200 font-medium truncate">{entry.task.title}</p>
+                    <p className="text-xs text-slate-500">
+                      {taskCount} task{taskCount === 1 ? '' : 's'} · deleted {new Date(entry.deletedAt).toLocaleDateString()} · purged in {daysLeft} day{daysLeft === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <button onClick={() => onRestore(entry.id)} className="px-2 py-1 text-xs font-semibold rounded bg-sky-600 hover:bg-sky-500 text-white transition-colors">Restore</button>
+                  <button onClick={() => onDelete([entry.id])} className="px-2 py-1 text-xs font-semibold rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors">Delete</button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="flex justify-end gap-3 mt-6">
+          {entries.length > 0 && (
+            <button onClick={() => onDelete(entries.map(entry => entry.id))} className="px-4 py-2 text-sm font-semibold bg-red-500/20 text-red-300 hover:bg-red-500/30 rounded-md transition-colors">Empty Trash</button>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
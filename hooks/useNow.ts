@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+
+// Current time that re-renders the caller every `intervalMs` while `isActive` is true.
+const useNow = (isActive: boolean, intervalMs: number = 1000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!isActive) return;
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [isActive, intervalMs]);
+
+  return now;
+};
+
+export default useNow;
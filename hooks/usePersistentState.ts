@@ -0,0 +1,57 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageBackend, StorageKey, StoredValues } from '../services/storage';
+
+const SYNC_CHANNEL = 'nested-tasks-sync';
+
+// State that is written to the storage backend after every change. Writes happen once per
+// render rather than once per setState call, and failures are reported through `onError`
+// instead of being swallowed. Other tabs are told about each save and reload the value.
+function usePersistentState<K extends StorageKey>(
+  storage: StorageBackend,
+  key: K,
+  storedValue: StoredValues[K] | undefined,
+  fallbackValue: StoredValues[K],
+  onError: (error: unknown) => void,
+): [StoredValues[K], React.Dispatch<React.SetStateAction<StoredValues[K]>>] {
+  const [value, setValue] = useState<StoredValues[K]>(storedValue ?? fallbackValue);
+  // The value the backend holds (or is about to hold); undefined forces a full rewrite.
+  const savedValue = useRef<StoredValues[K] | undefined>(storedValue);
+  const channel = useRef<BroadcastChannel | null>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (value === savedValue.current) return;
+    const previous = savedValue.current;
+    savedValue.current = value;
+    storage.save(key, value, previous)
+      .then(() => channel.current?.postMessage({ key }))
+      .catch(error => {
+        savedValue.current = undefined;
+        onErrorRef.current(error);
+      });
+  }, [storage, key, value]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.current = syncChannel;
+    syncChannel.onmessage = (e: MessageEvent<{ key: StorageKey }>) => {
+      if (e.data?.key !== key) return;
+      storage.load(key).then(remoteValue => {
+        if (remoteValue === undefined) return;
+        // Mark it as saved first so applying it does not write it straight back.
+        savedValue.current = remoteValue;
+        setValue(remoteValue);
+      }).catch(error => onErrorRef.current(error));
+    };
+    return () => {
+      syncChannel.close();
+      channel.current = null;
+    };
+  }, [storage, key]);
+
+  return [value, setValue];
+}
+
+export default usePersistentState;
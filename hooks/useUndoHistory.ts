@@ -0,0 +1,68 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Connections, Task, TrashEntry } from '../types';
+import { keepCurrentTimers } from '../services/timer';
+
+interface Snapshot {
+  tasks: Task[];
+  connections: Connections;
+  trash: TrashEntry[];
+}
+
+const MAX_HISTORY = 100;
+
+// Snapshot-based undo/redo over the task tree, the connections map and the trash.
+// Call `record()` right before a mutation; the state at that moment becomes the undo target.
+// Timers are not part of the history: restoring a snapshot keeps each task's current timer.
+function useUndoHistory(
+  tasks: Task[],
+  connections: Connections,
+  trash: TrashEntry[],
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>,
+  setConnections: React.Dispatch<React.SetStateAction<Connections>>,
+  setTrash: React.Dispatch<React.SetStateAction<TrashEntry[]>>,
+) {
+  const [past, setPast] = useState<Snapshot[]>([]);
+  const [future, setFuture] = useState<Snapshot[]>([]);
+
+  // Keep the latest values in a ref so the callbacks stay stable between renders.
+  const current = useRef<Snapshot>({ tasks, connections, trash });
+  current.current = { tasks, connections, trash };
+
+  const record = useCallback(() => {
+    const snapshot = current.current;
+    setPast(prev => [...prev.slice(-(MAX_HISTORY - 1)), snapshot]);
+    setFuture([]);
+  }, []);
+
+  const restore = (snapshot: Snapshot) => {
+    setTasks(keepCurrentTimers(snapshot.tasks, current.current.tasks, Date.now()));
+    setConnections(snapshot.connections);
+    setTrash(snapshot.trash);
+  };
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(prev => [current.current, ...prev]);
+    restore(previous);
+  }, [past, setTasks, setConnections, setTrash]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast(prev => [...prev, current.current]);
+    restore(next);
+  }, [future, setTasks, setConnections, setTrash]);
+
+  // For when the tree is swapped out wholesale and the old snapshots no longer apply to it.
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return { record, undo, redo, clear, canUndo: past.length > 0, canRedo: future.length > 0 };
+}
+
+export default useUndoHistory;
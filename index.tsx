@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadStoredValues, openStorage } from './services/storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,28 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// Load persisted data before the first render so the app never starts from sample data
+// and overwrites what is stored.
+openStorage().then(async storage => {
+  const storedValues = await loadStoredValues(storage);
+  root.render(
+    <React.StrictMode>
+      <App storage={storage} storedValues={storedValues} />
+    </React.StrictMode>
+  );
+}).catch(error => {
+  // Starting from sample data here would overwrite whatever is stored, so stop instead.
+  console.error('Could not load saved data:', error);
+  root.render(
+    <div className="text-slate-100 min-h-screen font-sans flex items-center justify-center p-8">
+      <div className="max-w-md text-center">
+        <h1 className="text-xl font-semibold text-rose-300">Your saved tasks could not be loaded</h1>
+        <p className="text-slate-400 mt-2">Nothing has been changed. Reload the page to try again.</p>
+        <button onClick={() => window.location.reload()} className="mt-4 px-4 py-2 rounded-md bg-sky-600 hover:bg-sky-500 text-white font-semibold">
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+});
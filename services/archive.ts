@@ -0,0 +1,41 @@
+import { Recurrence, Task } from '../types';
+import { isTaskComplete } from './dependencies';
+
+// The tree as the views show it, without archived tasks. Unchanged branches keep their identity.
+export const hideArchived = (tasks: Task[]): Task[] => {
+    const prune = (list: Task[]): Task[] => {
+        const kept = list.filter(task => task.archivedAt === undefined).map(task => {
+            const children = prune(task.children);
+            return children === task.children ? task : { ...task, children };
+        });
+        return kept.length === list.length && kept.every((task, i) => task === list[i]) ? list : kept;
+    };
+    return prune(tasks);
+};
+
+// Archived tasks that aren't inside another archived task, in tree order.
+export const collectArchived = (tasks: Task[]): Task[] =>
+    tasks.flatMap(task => task.archivedAt !== undefined ? [task] : collectArchived(task.children));
+
+// Recurring habits come back every period, so a subtree that has one, on its own or through
+// an ancestor, stays out of the archive.
+const hasSchedule = (task: Task, inherited?: Recurrence): boolean =>
+    Boolean(task.recurrence ?? inherited) || task.children.some(child => hasSchedule(child));
+
+// Completion is derived as in the views: a parent whose subtasks are all done is done itself,
+// so a finished subtree is archived as a whole. Archived subtrees are left as they are.
+const canArchive = (task: Task, inherited?: Recurrence): boolean =>
+    task.archivedAt === undefined && isTaskComplete(task) && !hasSchedule(task, inherited);
+
+export const hasCompletedTasks = (tasks: Task[], inherited?: Recurrence): boolean =>
+    tasks.some(task => task.archivedAt === undefined
+        && (canArchive(task, inherited) || hasCompletedTasks(task.children, task.recurrence ?? inherited)));
+
+// Archives every completed task that isn't archived yet, along with its subtasks.
+export const archiveCompleted = (tasks: Task[], now: number, inherited?: Recurrence): Task[] =>
+    tasks.map(task => {
+        if (task.archivedAt !== undefined) return task;
+        return canArchive(task, inherited)
+            ? { ...task, archivedAt: now }
+            : { ...task, children: archiveCompleted(task.children, now, task.recurrence ?? inherited) };
+    });
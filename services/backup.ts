@@ -0,0 +1,389 @@
+import { AppSettings, Connection, Connections, MindmapLayout, Pomodoro, PomodoroPhase, PomodoroSettings, Priority, Recurrence, RecurrenceFrequency, Task, TaskTemplate, TaskType, TimerSession, TimerState, TrashEntry, ViewMode, Workspace, WorkspaceState } from '../types';
+import { parseConnection, upgradeConnections } from './connections';
+
+export const BACKUP_APP_ID = 'nested-habit-tracker';
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface BackupData {
+    tasks: Task[]; // the active workspace's tree
+    connections: Connections;
+    settings: Partial<AppSettings>;
+    timeLog?: TimerSession[];
+    workspaces?: WorkspaceState; // as stored: the inactive workspaces carry their own trees
+    templates?: TaskTemplate[];
+    trash?: TrashEntry[];
+}
+
+export interface BackupFile {
+    app: string;
+    schemaVersion: number;
+    exportedAt: string;
+    data: BackupData;
+}
+
+export const createBackup = (data: BackupData): BackupFile => ({
+    app: BACKUP_APP_ID,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const upgradeLegacyTask = (raw: unknown): unknown => {
+    if (!isObject(raw)) return raw;
+    return {
+        ...raw,
+        type: raw.type === TaskType.Habit ? TaskType.Habit : TaskType.Todo,
+        completed: Boolean(raw.completed),
+        collapsed: Boolean(raw.collapsed),
+        children: Array.isArray(raw.children) ? raw.children.map(upgradeLegacyTask) : [],
+    };
+};
+
+// Each migration upgrades a payload from the version it is keyed by to the next one.
+// Add an entry here (and bump CURRENT_SCHEMA_VERSION) whenever the shape of Task changes.
+const migrations: { [fromVersion: number]: (data: Record<string, unknown>) => Record<string, unknown> } = {
+    // Version 0 is an unversioned dump of the old localStorage keys: either the bare task
+    // array (wrapped as `{ tasks }` by parseBackup) or `{ tasks, connections }`. Tasks from
+    // that era may omit `collapsed`, `children` and `type`.
+    0: (data) => ({
+        tasks: Array.isArray(data.tasks) ? data.tasks.map(upgradeLegacyTask) : data.tasks,
+        connections: isObject(data.connections) ? data.connections : {},
+        settings: {},
+    }),
+    // Version 2 stores running timers as a deadline instead of a per-second countdown.
+    // A version 1 timer cannot be placed on the clock any more, so it comes back paused.
+    1: (data) => {
+        const pauseRunningTimer = (task: unknown): unknown => isObject(task) ? {
+            ...task,
+            timerState: task.timerState === TimerState.Running ? TimerState.Paused : task.timerState,
+            children: Array.isArray(task.children) ? task.children.map(pauseRunningTimer) : task.children,
+        } : task;
+        return Array.isArray(data.tasks) ? { ...data, tasks: data.tasks.map(pauseRunningTimer) } : data;
+    },
+    // Version 3 gives each connection a type and an optional label instead of a bare target id.
+    2: (data) => {
+        if (!isObject(data.connections)) return data;
+        const entries = Object.fromEntries(Object.entries(data.connections).map(([sourceId, targets]) => [sourceId, Array.isArray(targets) ? targets : []]));
+        const legacyBlocking = isObject(data.settings) && data.settings.connectionsBlock === true;
+        return { ...data, connections: upgradeConnections(entries, legacyBlocking) };
+    },
+    // Version 4 backs up every workspace, plus the template library and the trash. Older files
+    // hold a single tree and have none of these, so they restore into the active workspace only.
+    3: (data) => data,
+};
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const SCHEDULE_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isEnumValue = <T extends string>(values: { [key: string]: T }, value: unknown): value is T =>
+    Object.values(values).includes(value as T);
+
+const validateRecurrence = (raw: unknown): Recurrence | undefined => {
+    if (!isObject(raw) || !isEnumValue(RecurrenceFrequency, raw.frequency)) return undefined;
+    const recurrence: Recurrence = { frequency: raw.frequency };
+    if (Array.isArray(raw.weekdays)) {
+        recurrence.weekdays = raw.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6);
+    }
+    if (Number.isInteger(raw.interval) && (raw.interval as number) > 0) recurrence.interval = raw.interval as number;
+    if (isNumber(raw.anchorDate)) recurrence.anchorDate = raw.anchorDate;
+    return recurrence;
+};
+
+const validatePomodoro = (raw: unknown): Pomodoro | undefined => {
+    if (!isObject(raw) || !isObject(raw.settings) || !isEnumValue(PomodoroPhase, raw.phase) || !Number.isInteger(raw.cycle)) return undefined;
+    const { workMinutes, shortBreakMinutes, longBreakMinutes, cyclesBeforeLongBreak } = raw.settings;
+    if (![workMinutes, shortBreakMinutes, longBreakMinutes, cyclesBeforeLongBreak].every(value => isNumber(value) && value > 0)) return undefined;
+    return {
+        settings: { workMinutes, shortBreakMinutes, longBreakMinutes, cyclesBeforeLongBreak } as PomodoroSettings,
+        phase: raw.phase,
+        cycle: raw.cycle as number,
+    };
+};
+
+// Structural problems (no id, title, type or children) reject the task. Optional fields of the
+// wrong type are dropped, so a hand-edited file cannot put bad values in front of the views.
+export const validateTask = (raw: unknown, path: string, seenIds: Set<string>): Task => {
+    if (!isObject(raw)) throw new Error(`${path} is not a task object.`);
+    if (typeof raw.id !== 'string' || raw.id === '') throw new Error(`${path} has no id.`);
+    if (seenIds.has(raw.id)) throw new Error(`${path} reuses the id "${raw.id}".`);
+    if (typeof raw.title !== 'string') throw new Error(`${path} has no title.`);
+    if (raw.type !== TaskType.Todo && raw.type !== TaskType.Habit) throw new Error(`${path} has an unknown type "${raw.type}".`);
+    if (!Array.isArray(raw.children)) throw new Error(`${path} has no children array.`);
+    seenIds.add(raw.id);
+
+    const task: Task = {
+        id: raw.id,
+        title: raw.title,
+        type: raw.type,
+        completed: Boolean(raw.completed),
+        collapsed: Boolean(raw.collapsed),
+        children: raw.children.map((child: unknown, i: number) => validateTask(child, `${path} > subtask ${i + 1}`, seenIds)),
+    };
+    if (isNumber(raw.timerDuration) && raw.timerDuration > 0) task.timerDuration = raw.timerDuration;
+    if (isNumber(raw.timerRemaining) && raw.timerRemaining >= 0) task.timerRemaining = raw.timerRemaining;
+    if (isEnumValue(TimerState, raw.timerState)) task.timerState = raw.timerState;
+    if (isNumber(raw.timerDeadline)) task.timerDeadline = raw.timerDeadline;
+    if (isNumber(raw.timerStartedAt)) task.timerStartedAt = raw.timerStartedAt;
+    const pomodoro = validatePomodoro(raw.pomodoro);
+    if (pomodoro) task.pomodoro = pomodoro;
+    if (Number.isInteger(raw.pomodoroCount) && (raw.pomodoroCount as number) >= 0) task.pomodoroCount = raw.pomodoroCount as number;
+    const recurrence = validateRecurrence(raw.recurrence);
+    if (recurrence) task.recurrence = recurrence;
+    if (isNumber(raw.completedAt)) task.completedAt = raw.completedAt;
+    if (Array.isArray(raw.completionLog)) {
+        task.completionLog = raw.completionLog.filter((day): day is string => typeof day === 'string' && DAY_KEY.test(day)).sort();
+    }
+    if (typeof raw.startDate === 'string' && SCHEDULE_DATE.test(raw.startDate)) task.startDate = raw.startDate;
+    if (typeof raw.dueDate === 'string' && SCHEDULE_DATE.test(raw.dueDate)) task.dueDate = raw.dueDate;
+    if (isEnumValue(Priority, raw.priority)) task.priority = raw.priority;
+    if (Array.isArray(raw.tags)) {
+        const tags = raw.tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '');
+        if (tags.length > 0) task.tags = tags;
+    }
+    if (typeof raw.notes === 'string' && raw.notes.trim() !== '') task.notes = raw.notes;
+    if (isNumber(raw.archivedAt)) task.archivedAt = raw.archivedAt;
+    // A running timer keeps its deadline, so it carries on (or finishes) after an import.
+    if (task.timerState === TimerState.Running && task.timerDeadline === undefined) {
+        task.timerState = TimerState.Paused;
+    }
+    return task;
+};
+
+export const validateConnections = (raw: unknown, taskIds: Set<string>): Connections => {
+    if (!isObject(raw)) throw new Error('Connections must be an object.');
+    const connections: Connections = {};
+    Object.entries(raw).forEach(([sourceId, entries]) => {
+        if (!Array.isArray(entries)) throw new Error(`Connections from "${sourceId}" must be a list.`);
+        if (!taskIds.has(sourceId)) return;
+        // Drop connections that are malformed or point at tasks missing from the file.
+        const valid = entries
+            .map(parseConnection)
+            .filter((connection): connection is Connection => connection !== null && taskIds.has(connection.targetId));
+        if (valid.length > 0) connections[sourceId] = valid;
+    });
+    return connections;
+};
+
+// Sessions are history rather than structure, so malformed entries are dropped instead of
+// failing the whole import. Sessions of tasks missing from the file are kept for the report.
+const validateTimeLog = (raw: unknown): TimerSession[] | undefined => {
+    if (!Array.isArray(raw)) return undefined;
+    return raw.filter((session): session is TimerSession =>
+        isObject(session)
+        && typeof session.id === 'string'
+        && typeof session.taskId === 'string'
+        && typeof session.start === 'number'
+        && typeof session.end === 'number'
+        && typeof session.duration === 'number'
+        && (session.outcome === 'finished' || session.outcome === 'interrupted'));
+};
+
+// Templates sit apart from the tree, so one that doesn't validate is dropped rather than
+// failing the whole import.
+const validateTemplates = (raw: unknown): TaskTemplate[] | undefined => {
+    if (!Array.isArray(raw)) return undefined;
+    return raw.flatMap((entry: unknown): TaskTemplate[] => {
+        if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !isNumber(entry.createdAt) || !Array.isArray(entry.tasks)) return [];
+        try {
+            const taskIds = new Set<string>();
+            const tasks = entry.tasks.map((task: unknown, i: number) => validateTask(task, `Task ${i + 1}`, taskIds));
+            return [{ id: entry.id, name: entry.name, createdAt: entry.createdAt, tasks, connections: validateConnections(entry.connections ?? {}, taskIds) }];
+        } catch {
+            return [];
+        }
+    });
+};
+
+// Like templates, a trash entry that doesn't validate is dropped. Its connections may point at
+// tasks outside the deleted subtree, so they are only checked for shape.
+const validateTrash = (raw: unknown): TrashEntry[] | undefined => {
+    if (!Array.isArray(raw)) return undefined;
+    return raw.flatMap((entry: unknown): TrashEntry[] => {
+        if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.workspaceId !== 'string') return [];
+        if (entry.parentId !== null && typeof entry.parentId !== 'string') return [];
+        if (!Number.isInteger(entry.position) || (entry.position as number) < 0 || !isNumber(entry.deletedAt) || !isObject(entry.connections)) return [];
+        let task: Task;
+        try {
+            task = validateTask(entry.task, 'Deleted task', new Set());
+        } catch {
+            return [];
+        }
+        const connections: Connections = {};
+        Object.entries(entry.connections).forEach(([sourceId, entries]) => {
+            const valid = Array.isArray(entries) ? entries.map(parseConnection).filter((connection): connection is Connection => connection !== null) : [];
+            if (valid.length > 0) connections[sourceId] = valid;
+        });
+        return [{ id: entry.id, workspaceId: entry.workspaceId, task, parentId: entry.parentId as string | null, position: entry.position as number, connections, deletedAt: entry.deletedAt }];
+    });
+};
+
+const VIEW_MODES: ViewMode[] = ['list', 'mindmap', 'report', 'today'];
+const MINDMAP_LAYOUTS: MindmapLayout[] = ['horizontal', 'vertical', 'radial', 'compact'];
+
+const validateSettings = (raw: unknown): Partial<AppSettings> => {
+    if (!isObject(raw)) return {};
+    const settings: Partial<AppSettings> = {};
+    if (VIEW_MODES.includes(raw.viewMode as ViewMode)) settings.viewMode = raw.viewMode as ViewMode;
+    if (MINDMAP_LAYOUTS.includes(raw.mindmapLayout as MindmapLayout)) settings.mindmapLayout = raw.mindmapLayout as MindmapLayout;
+    if (typeof raw.inheritTags === 'boolean') settings.inheritTags = raw.inheritTags;
+    if (Number.isInteger(raw.trashRetentionDays) && (raw.trashRetentionDays as number) > 0) settings.trashRetentionDays = raw.trashRetentionDays as number;
+    return settings;
+};
+
+// The active workspace's tree is validated separately, so its entry keeps none. Task ids only
+// have to be unique within a workspace.
+const validateWorkspaces = (raw: unknown): WorkspaceState => {
+    if (!isObject(raw) || !Array.isArray(raw.workspaces)) throw new Error('The file does not contain a workspace list.');
+    const seenIds = new Set<string>();
+    const workspaces = raw.workspaces.map((entry: unknown, i: number): Workspace => {
+        const path = `Workspace ${i + 1}`;
+        if (!isObject(entry) || typeof entry.id !== 'string' || entry.id === '') throw new Error(`${path} has no id.`);
+        if (seenIds.has(entry.id)) throw new Error(`${path} reuses the id "${entry.id}".`);
+        seenIds.add(entry.id);
+        const workspace: Workspace = {
+            id: entry.id,
+            name: typeof entry.name === 'string' && entry.name.trim() !== '' ? entry.name : 'Untitled',
+            viewMode: VIEW_MODES.includes(entry.viewMode as ViewMode) ? entry.viewMode as ViewMode : 'list',
+        };
+        if (entry.id === raw.activeId) return workspace;
+        if (!Array.isArray(entry.tasks)) throw new Error(`${path} has no task list.`);
+        const taskIds = new Set<string>();
+        workspace.tasks = entry.tasks.map((task: unknown, j: number) => validateTask(task, `${path} > task ${j + 1}`, taskIds));
+        workspace.connections = validateConnections(entry.connections ?? {}, taskIds);
+        return workspace;
+    });
+    const active = workspaces.find(workspace => workspace.id === raw.activeId);
+    if (!active) throw new Error('The file does not say which workspace is active.');
+    return { activeId: active.id, workspaces };
+};
+
+// Parses an exported file (or an older unversioned dump), migrates it to the current
+// schema and validates it. Throws an Error with a user-facing message on bad input.
+export const parseBackup = (json: string): BackupData => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    const isVersioned = isObject(raw) && raw.app === BACKUP_APP_ID && typeof raw.schemaVersion === 'number';
+    let version = isVersioned ? (raw as BackupFile).schemaVersion : 0;
+    const payload: unknown = isVersioned ? (raw as BackupFile).data : Array.isArray(raw) ? { tasks: raw } : raw;
+    if (!isObject(payload)) throw new Error('The file does not contain a task list.');
+    let data: Record<string, unknown> = payload;
+
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`The file was exported by a newer version of the app (schema ${version}).`);
+    }
+    while (version < CURRENT_SCHEMA_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) throw new Error(`No migration from schema version ${version}.`);
+        data = migrate(data);
+        version += 1;
+    }
+
+    if (!Array.isArray(data.tasks)) throw new Error('The file does not contain a task list.');
+    const taskIds = new Set<string>();
+    const tasks = data.tasks.map((task: unknown, i: number) => validateTask(task, `Task ${i + 1}`, taskIds));
+    return {
+        tasks,
+        connections: validateConnections(data.connections ?? {}, taskIds),
+        settings: validateSettings(data.settings),
+        timeLog: validateTimeLog(data.timeLog),
+        workspaces: data.workspaces === undefined ? undefined : validateWorkspaces(data.workspaces),
+        templates: validateTemplates(data.templates),
+        trash: validateTrash(data.trash),
+    };
+};
+
+// Appends imported tasks after the existing ones. Imported ids that clash with existing
+// tasks are replaced with fresh ones, and the imported connections and sessions follow them.
+export const mergeBackup = (tasks: Task[], connections: Connections, timeLog: TimerSession[], imported: BackupData): { tasks: Task[]; connections: Connections; timeLog: TimerSession[] } => {
+    const existingIds = new Set<string>();
+    const collectIds = (task: Task) => {
+        existingIds.add(task.id);
+        task.children.forEach(collectIds);
+    };
+    tasks.forEach(collectIds);
+
+    const idMap = new Map<string, string>();
+    const reassignIds = (task: Task): Task => {
+        const id = existingIds.has(task.id) ? crypto.randomUUID() : task.id;
+        idMap.set(task.id, id);
+        return { ...task, id, children: task.children.map(reassignIds) };
+    };
+    const importedTasks = imported.tasks.map(reassignIds);
+
+    const mergedConnections: Connections = { ...connections };
+    Object.entries(imported.connections).forEach(([sourceId, importedConnections]) => {
+        const newSourceId = idMap.get(sourceId) ?? sourceId;
+        const merged = [...(mergedConnections[newSourceId] ?? [])];
+        importedConnections.forEach(connection => {
+            const targetId = idMap.get(connection.targetId) ?? connection.targetId;
+            if (!merged.some(existing => existing.targetId === targetId)) merged.push({ ...connection, targetId });
+        });
+        mergedConnections[newSourceId] = merged;
+    });
+
+    const existingSessions = new Set(timeLog.map(session => session.id));
+    const importedSessions = (imported.timeLog ?? [])
+        .filter(session => !existingSessions.has(session.id))
+        .map(session => ({ ...session, taskId: idMap.get(session.taskId) ?? session.taskId }));
+
+    return { tasks: [...tasks, ...importedTasks], connections: mergedConnections, timeLog: [...timeLog, ...importedSessions] };
+};
+
+// Merges a backup of several workspaces. The imported active tree is appended to the current
+// one, as with a single-tree import; every other imported workspace is merged into the local
+// workspace with the same id or added as a new one. Sessions follow the tree their task is in.
+export const mergeWorkspaces = (
+    tasks: Task[],
+    connections: Connections,
+    workspaceState: WorkspaceState,
+    timeLog: TimerSession[],
+    imported: BackupData,
+): { tasks: Task[]; connections: Connections; workspaces: Workspace[]; timeLog: TimerSession[] } => {
+    const importedWorkspaces = imported.workspaces?.workspaces ?? [];
+    const inactive = importedWorkspaces.filter(workspace => workspace.id !== imported.workspaces?.activeId);
+    const sessionsOf = (importedTasks: Task[]): TimerSession[] => {
+        const ids = new Set<string>();
+        const collectIds = (task: Task) => {
+            ids.add(task.id);
+            task.children.forEach(collectIds);
+        };
+        importedTasks.forEach(collectIds);
+        return (imported.timeLog ?? []).filter(session => ids.has(session.taskId));
+    };
+    // Sessions of tasks no longer in any tree go with the active one, as they did when exported.
+    const inactiveSessions = new Set(inactive.flatMap(workspace => sessionsOf(workspace.tasks ?? [])));
+
+    let active = mergeBackup(tasks, connections, timeLog, {
+        ...imported,
+        timeLog: (imported.timeLog ?? []).filter(session => !inactiveSessions.has(session)),
+    });
+    let workspaces = workspaceState.workspaces;
+    let mergedLog = active.timeLog;
+    inactive.forEach(workspace => {
+        const part: BackupData = { tasks: workspace.tasks ?? [], connections: workspace.connections ?? {}, settings: {}, timeLog: sessionsOf(workspace.tasks ?? []) };
+        const local = workspaces.find(w => w.id === workspace.id);
+        if (workspace.id === workspaceState.activeId) {
+            active = mergeBackup(active.tasks, active.connections, mergedLog, part);
+            mergedLog = active.timeLog;
+        } else if (local) {
+            const merged = mergeBackup(local.tasks ?? [], local.connections ?? {}, mergedLog, part);
+            mergedLog = merged.timeLog;
+            workspaces = workspaces.map(w => w.id === workspace.id ? { ...w, tasks: merged.tasks, connections: merged.connections } : w);
+        } else {
+            const merged = mergeBackup([], {}, mergedLog, part);
+            mergedLog = merged.timeLog;
+            workspaces = [...workspaces, { ...workspace, tasks: merged.tasks, connections: merged.connections }];
+        }
+    });
+    return { tasks: active.tasks, connections: active.connections, workspaces, timeLog: mergedLog };
+};
@@ -0,0 +1,92 @@
+import { Connections, Task, TimerState } from '../types';
+import { validateConnections, validateTask } from './backup';
+import { markdownToTasks, tasksToMarkdown } from './outline';
+
+// Copied subtrees go through the system clipboard twice: as JSON under the app's own type, which
+// other tabs read back with types, schedules and connections intact, and as a Markdown checklist
+// for pasting anywhere else. Pasting plain text from elsewhere reads it as a checklist.
+export const CLIPBOARD_TYPE = 'application/x-nested-habit-tracker+json';
+
+export interface ClipboardData {
+    tasks: Task[];
+    connections: Connections;
+}
+
+// The copied tasks with the connections between them; connections leading out of the copy
+// are left behind.
+export const copySubtrees = (tasks: Task[], connections: Connections): ClipboardData => {
+    const ids = new Set<string>();
+    const collectIds = (task: Task) => {
+        ids.add(task.id);
+        task.children.forEach(collectIds);
+    };
+    tasks.forEach(collectIds);
+
+    const internal: Connections = {};
+    Object.entries(connections).forEach(([sourceId, sourceConnections]) => {
+        if (!ids.has(sourceId)) return;
+        const kept = sourceConnections.filter(connection => ids.has(connection.targetId));
+        if (kept.length > 0) internal[sourceId] = kept;
+    });
+    return { tasks, connections: internal };
+};
+
+export const writeClipboard = (clipboard: DataTransfer, data: ClipboardData) => {
+    clipboard.setData(CLIPBOARD_TYPE, JSON.stringify(data));
+    clipboard.setData('text/plain', tasksToMarkdown(data.tasks));
+};
+
+const parseStructured = (json: string): ClipboardData | null => {
+    try {
+        const raw = JSON.parse(json);
+        if (!Array.isArray(raw?.tasks)) return null;
+        const ids = new Set<string>();
+        const tasks = raw.tasks.map((task: unknown, i: number) => validateTask(task, `Task ${i + 1}`, ids));
+        return { tasks, connections: validateConnections(raw.connections ?? {}, ids) };
+    } catch {
+        return null;
+    }
+};
+
+// Returns null when the clipboard holds nothing that reads as tasks.
+export const readClipboard = (clipboard: DataTransfer): ClipboardData | null => {
+    const structured = clipboard.getData(CLIPBOARD_TYPE);
+    if (structured) {
+        const data = parseStructured(structured);
+        if (data) return data;
+    }
+    const text = clipboard.getData('text/plain');
+    let tasks = markdownToTasks(text);
+    // Lines without list markers become one task each, nested by their indentation.
+    if (tasks.length === 0) tasks = markdownToTasks(text.replace(/^(\s*)(?=\S)/gm, '$1- '));
+    return tasks.length > 0 ? { tasks, connections: {} } : null;
+};
+
+// Copies get fresh ids, like tasks created through handleAddTask, and the copied connections
+// follow them. A copy starts without completion history or pomodoro progress, its timer reset.
+export const cloneWithFreshIds = (data: ClipboardData): ClipboardData => {
+    const idMap = new Map<string, string>();
+    const clone = (task: Task): Task => {
+        const id = crypto.randomUUID();
+        idMap.set(task.id, id);
+        const { completionLog, pomodoroCount, pomodoro, timerStartedAt, timerDeadline, timerRemaining, ...fields } = task;
+        return {
+            ...fields,
+            id,
+            children: task.children.map(clone),
+            timerState: TimerState.Idle,
+            ...(task.timerDuration !== undefined && { timerRemaining: task.timerDuration }),
+        };
+    };
+    const tasks = data.tasks.map(clone);
+
+    const connections: Connections = {};
+    Object.entries(data.connections).forEach(([sourceId, sourceConnections]) => {
+        const newSourceId = idMap.get(sourceId);
+        if (!newSourceId) return;
+        connections[newSourceId] = sourceConnections
+            .filter(connection => idMap.has(connection.targetId))
+            .map(connection => ({ ...connection, targetId: idMap.get(connection.targetId)! }));
+    });
+    return { tasks, connections };
+};
@@ -0,0 +1,35 @@
+import { Connection, Connections, ConnectionType } from '../types';
+
+export const CONNECTION_TYPE_LABELS: { [type in ConnectionType]: string } = {
+    [ConnectionType.RelatesTo]: 'Relates to',
+    [ConnectionType.Follows]: 'Followed by',
+    [ConnectionType.Blocks]: 'Blocks',
+};
+
+const isConnectionType = (value: unknown): value is ConnectionType =>
+    Object.values(ConnectionType).includes(value as ConnectionType);
+
+// Before connections had types they were bare target ids. Whether those meant "blocks" depended
+// on the old global dependencies switch, which is passed in as `legacyBlocking`.
+export const upgradeConnections = (raw: { [sourceId: string]: unknown[] }, legacyBlocking: boolean): Connections => {
+    const connections: Connections = {};
+    Object.entries(raw).forEach(([sourceId, entries]) => {
+        connections[sourceId] = entries.map(entry => typeof entry === 'string'
+            ? { targetId: entry, type: legacyBlocking ? ConnectionType.Blocks : ConnectionType.RelatesTo }
+            : entry as Connection);
+    });
+    return connections;
+};
+
+// Validates one imported connection; returns null for anything unusable.
+export const parseConnection = (raw: unknown): Connection | null => {
+    if (typeof raw !== 'object' || raw === null) return null;
+    const { targetId, type, label } = raw as Record<string, unknown>;
+    if (typeof targetId !== 'string') return null;
+    const connection: Connection = { targetId, type: isConnectionType(type) ? type : ConnectionType.RelatesTo };
+    if (typeof label === 'string' && label.trim() !== '') connection.label = label;
+    return connection;
+};
+
+export const findConnection = (connections: Connections, sourceId: string, targetId: string): Connection | undefined =>
+    connections[sourceId]?.find(connection => connection.targetId === targetId);
@@ -0,0 +1,73 @@
+import { Connections, ConnectionType, Task } from '../types';
+
+// True when making source block target would close a loop, i.e. target already blocks source.
+export const wouldCreateCycle = (connections: Connections, sourceId: string, targetId: string): boolean => {
+    if (sourceId === targetId) return true;
+    const visited = new Set<string>();
+    const stack = [targetId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === sourceId) return true;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        (connections[id] ?? []).forEach(connection => {
+            if (connection.type === ConnectionType.Blocks) stack.push(connection.targetId);
+        });
+    }
+    return false;
+};
+
+// A parent counts as completed once all of its subtasks are, as in TaskItem's progress.
+export const isTaskComplete = (task: Task): boolean =>
+    task.children.length === 0 ? task.completed : task.children.every(isTaskComplete);
+
+// The open tasks blocking each task through "blocks" connections.
+export const findBlockers = (tasks: Task[], connections: Connections): Map<string, Task[]> => {
+    const byId = new Map<string, Task>();
+    const index = (task: Task) => {
+        byId.set(task.id, task);
+        task.children.forEach(index);
+    };
+    tasks.forEach(index);
+
+    const blockers = new Map<string, Task[]>();
+    Object.entries(connections).forEach(([sourceId, sourceConnections]) => {
+        const source = byId.get(sourceId);
+        if (!source || isTaskComplete(source)) return;
+        sourceConnections.forEach(({ targetId, type }) => {
+            if (type !== ConnectionType.Blocks || !byId.has(targetId)) return;
+            blockers.set(targetId, [...(blockers.get(targetId) ?? []), source]);
+        });
+    });
+    return blockers;
+};
+
+// Tasks that can't be worked on yet: blocked themselves or inside a blocked parent.
+export const collectBlockedIds = (tasks: Task[], blockers: Map<string, Task[]>): Set<string> => {
+    const blocked = new Set<string>();
+    const visit = (task: Task, parentBlocked: boolean) => {
+        const isBlocked = parentBlocked || blockers.has(task.id);
+        if (isBlocked) blocked.add(task.id);
+        task.children.forEach(child => visit(child, isBlocked));
+    };
+    tasks.forEach(task => visit(task, false));
+    return blocked;
+};
+
+// The open blockers of each task in `task`'s subtree, for completing the whole subtree at once.
+// Blockers inside the subtree are left out, since they are completed along with it.
+export const findSubtreeBlockers = (task: Task, blockers: Map<string, Task[]>): Map<string, Task[]> => {
+    const subtreeIds = new Set<string>();
+    const collectIds = (t: Task) => {
+        subtreeIds.add(t.id);
+        t.children.forEach(collectIds);
+    };
+    collectIds(task);
+
+    const found = new Map<string, Task[]>();
+    subtreeIds.forEach(id => {
+        const outside = (blockers.get(id) ?? []).filter(blocker => !subtreeIds.has(blocker.id));
+        if (outside.length > 0) found.set(id, outside);
+    });
+    return found;
+};
@@ -0,0 +1,14 @@
+// Triggers a browser download of in-memory content.
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+// Date stamp for export filenames, e.g. "2024-05-01".
+export const fileDateStamp = (): string => new Date().toISOString().slice(0, 10);
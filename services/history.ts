@@ -0,0 +1,90 @@
+import { Recurrence, RecurrenceFrequency, Task, TaskType } from '../types';
+import { getPeriodStart } from './recurrence';
+
+export type DayHistory = Map<string, { done: number; total: number }>;
+
+// Day keys are local calendar dates ("YYYY-MM-DD") so a completion at 23:59 counts for that day.
+export const toDayKey = (time: number): string => {
+    const date = new Date(time);
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDayKey = (key: string): number => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day).getTime();
+};
+
+// Completing a habit logs today; un-completing it the same day takes that entry back.
+export const updateCompletionLog = (task: Task, completed: boolean, now: number): string[] | undefined => {
+    if (task.type !== TaskType.Habit) return task.completionLog;
+    const today = toDayKey(now);
+    const log = (task.completionLog ?? []).filter(day => day !== today);
+    return completed ? [...log, today].sort() : log;
+};
+
+const collectHabitLeaves = (task: Task): Task[] => {
+    if (task.children.length === 0) {
+        return task.type === TaskType.Habit ? [task] : [];
+    }
+    return task.children.flatMap(collectHabitLeaves);
+};
+
+// Per-day completion counts for a habit node. Parents roll up the logs of every habit
+// leaf below them, mirroring how computeProgress derives a parent's completion.
+export const collectHabitHistory = (task: Task): DayHistory => {
+    const leaves = collectHabitLeaves(task);
+    const history: DayHistory = new Map();
+    leaves.forEach(leaf => {
+        (leaf.completionLog ?? []).forEach(day => {
+            const entry = history.get(day) ?? { done: 0, total: leaves.length };
+            entry.done += 1;
+            history.set(day, entry);
+        });
+    });
+    return history;
+};
+
+// Streaks are counted in recurrence periods, so a habit scheduled for Mon/Wed/Fri keeps its
+// streak over the days in between. A parent's period counts once every habit leaf below it
+// was completed within that period. The current period only breaks a streak once it has ended.
+export const computeStreaks = (task: Task, recurrence: Recurrence = { frequency: RecurrenceFrequency.Daily }, now: number = Date.now()): { current: number; longest: number } => {
+    const leaves = collectHabitLeaves(task);
+    const leavesByPeriod = new Map<number, Set<string>>();
+    leaves.forEach(leaf => {
+        (leaf.completionLog ?? []).forEach(day => {
+            const periodStart = getPeriodStart(recurrence, fromDayKey(day));
+            const completedLeaves = leavesByPeriod.get(periodStart) ?? new Set<string>();
+            completedLeaves.add(leaf.id);
+            leavesByPeriod.set(periodStart, completedLeaves);
+        });
+    });
+    const completedPeriods = new Set<number>();
+    leavesByPeriod.forEach((completedLeaves, periodStart) => {
+        if (completedLeaves.size === leaves.length) completedPeriods.add(periodStart);
+    });
+
+    const previousPeriod = (periodStart: number) => getPeriodStart(recurrence, periodStart - 1);
+
+    let longest = 0;
+    let run = 0;
+    let lastPeriod: number | null = null;
+    [...completedPeriods].sort((a, b) => a - b).forEach(periodStart => {
+        run = lastPeriod !== null && previousPeriod(periodStart) === lastPeriod ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        lastPeriod = periodStart;
+    });
+
+    let current = 0;
+    let period = getPeriodStart(recurrence, now);
+    if (!completedPeriods.has(period)) {
+        period = previousPeriod(period);
+    }
+    while (completedPeriods.has(period)) {
+        current += 1;
+        period = previousPeriod(period);
+    }
+
+    return { current, longest };
+};
@@ -0,0 +1,123 @@
+// A small Markdown subset for task notes: headings, paragraphs, bullet and numbered lists,
+// checklists, block quotes, fenced code, inline code, bold, italics and links. The text is
+// escaped before any markup is added, and only http(s) and mailto links are turned into links.
+
+const CHECKLIST_ITEM = /^(\s*)[-*+]\s+\[( |x|X)\]\s+(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*```/;
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+const LINK_CLASS = 'text-sky-400 underline hover:text-sky-300';
+
+const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const link = (url: string, label: string) =>
+    `<a href="${url}" target="_blank" rel="noopener noreferrer" class="${LINK_CLASS}">${label}</a>`;
+
+const renderInline = (text: string): string => {
+    // Code spans are set aside first so nothing inside them is treated as markup.
+    const codeSpans: string[] = [];
+    let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => `\u0000${codeSpans.push(code) - 1}\u0000`);
+    html = html
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => SAFE_URL.test(url) ? link(url, label) : match)
+        .replace(/(^|\s)(https?:\/\/[^\s<]*[^\s<.,;:!?)])/g, (_, space: string, url: string) => `${space}${link(url, url)}`)
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^*\w])[*_]([^*_\s][^*_]*)[*_](?![*\w])/g, '$1<em>$2</em>');
+    return html.replace(/\u0000(\d+)\u0000/g, (_, i: string) => `<code class="px-1 rounded bg-slate-700/70 text-[0.85em]">${codeSpans[Number(i)]}</code>`);
+};
+
+// Returns HTML for the notes preview. Checklist boxes carry the source line they came from in
+// `data-line`, for toggleChecklistItem.
+export const renderMarkdown = (markdown: string): string => {
+    const lines = markdown.split(/\r?\n/);
+    const blocks: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (FENCE.test(line)) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+            i++; // the closing fence
+            blocks.push(`<pre class="p-2 rounded bg-slate-900/80 overflow-x-auto text-xs"><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            const level = heading[1].length;
+            blocks.push(`<h${level} class="${HEADING_CLASSES[level - 1]} text-slate-100">${renderInline(heading[2])}</h${level}>`);
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(renderInline(lines[i++].match(QUOTE)![1]));
+            blocks.push(`<blockquote class="pl-3 border-l-2 border-slate-600 text-slate-400">${quoted.join('<br>')}</blockquote>`);
+            continue;
+        }
+
+        const listItem = line.match(LIST_ITEM);
+        if (listItem) {
+            const ordered = /\d/.test(listItem[2]);
+            const items: string[] = [];
+            while (i < lines.length) {
+                const item = lines[i].match(LIST_ITEM);
+                if (!item || /\d/.test(item[2]) !== ordered) break;
+                const indent = Math.floor(item[1].replace(/\t/g, '    ').length / 2);
+                const style = indent > 0 ? ` style="margin-left: ${indent * 1.25}rem"` : '';
+                const checklist = lines[i].match(CHECKLIST_ITEM);
+                if (checklist) {
+                    const checked = checklist[2] !== ' ';
+                    items.push(`<li class="list-none -ml-5"${style}><label class="inline-flex items-start gap-2 cursor-pointer"><input type="checkbox" data-line="${i}"${checked ? ' checked' : ''} class="mt-1 accent-sky-500"><span${checked ? ' class="line-through text-slate-500"' : ''}>${renderInline(checklist[3])}</span></label></li>`);
+                } else {
+                    items.push(`<li${style}>${renderInline(item[3])}</li>`);
+                }
+                i++;
+            }
+            blocks.push(ordered ? `<ol class="pl-5 list-decimal space-y-0.5">${items.join('')}</ol>` : `<ul class="pl-5 list-disc space-y-0.5">${items.join('')}</ul>`);
+            continue;
+        }
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() !== '' && !FENCE.test(lines[i]) && !HEADING.test(lines[i]) && !QUOTE.test(lines[i]) && !LIST_ITEM.test(lines[i])) {
+            paragraph.push(renderInline(lines[i++]));
+        }
+        blocks.push(`<p>${paragraph.join('<br>')}</p>`);
+    }
+
+    return blocks.join('');
+};
+
+export const toggleChecklistItem = (markdown: string, line: number): string => {
+    const lines = markdown.split(/\r?\n/);
+    const match = lines[line]?.match(CHECKLIST_ITEM);
+    if (!match) return markdown;
+    lines[line] = lines[line].replace(/\[( |x|X)\]/, match[2] === ' ' ? '[x]' : '[ ]');
+    return lines.join('\n');
+};
+
+// The same notes with every checklist box cleared.
+export const uncheckChecklist = (markdown: string): string =>
+    markdown.split(/\r?\n/).map(line => CHECKLIST_ITEM.test(line) ? line.replace(/\[(x|X)\]/, '[ ]') : line).join('\n');
+
+// Checked and total checklist items, for the note badge.
+export const countChecklist = (markdown: string): { done: number; total: number } => {
+    const items = markdown.split(/\r?\n/).map(line => line.match(CHECKLIST_ITEM)).filter(Boolean) as RegExpMatchArray[];
+    return { done: items.filter(item => item[2] !== ' ').length, total: items.length };
+};
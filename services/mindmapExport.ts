@@ -0,0 +1,192 @@
+import { Connections, ConnectionType, MindmapLayout, Task } from '../types';
+import { connectionCurve, curveBounds, curveMidpoint, curvePath, hierarchyCurve, NodePosition } from './mindmapLayout';
+import { computeProgress } from './progress';
+import { escapeXml } from './xml';
+
+// Tailwind colors the live mindmap uses, spelled out so the file stands on its own.
+const BACKGROUND = '#0f172a'; // slate-900
+const NODE_FILL = '#1e293b'; // slate-800
+const MUTED = '#64748b'; // slate-500
+const LEVEL_COLORS = [
+    { border: '#64748b', text: '#cbd5e1' }, // slate
+    { border: '#0ea5e9', text: '#38bdf8' }, // sky
+    { border: '#2dd4bf', text: '#5eead4' }, // teal
+    { border: '#a78bfa', text: '#c4b5fd' }, // violet
+    { border: '#fb7185', text: '#fda4af' }, // rose
+];
+const CONNECTOR_COLORS = ['#475569', '#0284c7', '#14b8a6', '#8b5cf6', '#f43f5e'];
+const CONNECTION_COLORS: { [type in ConnectionType]: { stroke: string; width: number; dashArray?: string; arrow: boolean } } = {
+    [ConnectionType.RelatesTo]: { stroke: MUTED, width: 2, dashArray: '6 4', arrow: false },
+    [ConnectionType.Follows]: { stroke: '#0284c7', width: 2, arrow: true },
+    [ConnectionType.Blocks]: { stroke: '#f59e0b', width: 3, arrow: true },
+};
+
+const MARGIN = 40;
+const FONT = 'ui-sans-serif, system-ui, -apple-system, sans-serif';
+const TITLE_SIZE = 15;
+const LINE_HEIGHT = 20;
+const CHAR_WIDTH = TITLE_SIZE * 0.55; // rough average, good enough for wrapping
+
+// Canvases larger than this fail silently in some browsers.
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (candidate.length <= maxChars || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+    }
+    if (line) lines.push(line);
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+    }
+    return lines.map(l => l.length > maxChars ? `${l.slice(0, maxChars - 1)}…` : l);
+};
+
+const renderNode = ({ task, x, y, width, height, depth }: NodePosition): string => {
+    const colors = LEVEL_COLORS[depth % LEVEL_COLORS.length];
+    const progress = task.children.length > 0 ? computeProgress(task) : null;
+    const isCompleted = progress ? progress.done === progress.total : task.completed;
+    const centerY = y + height / 2;
+    const parts: string[] = [];
+
+    parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="${NODE_FILL}" stroke="${colors.border}" stroke-width="1" />`);
+
+    // Checkbox
+    const boxX = x + 12;
+    const boxY = centerY - 10;
+    parts.push(isCompleted
+        ? `<rect x="${boxX}" y="${boxY}" width="20" height="20" rx="4" fill="#0284c7" stroke="#0ea5e9" stroke-width="2" /><path d="M ${boxX + 4.3} ${boxY + 10.7} L ${boxX + 8.6} ${boxY + 15} L ${boxX + 16.4} ${boxY + 7.1}" fill="none" stroke="#ffffff" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round" />`
+        : `<rect x="${boxX}" y="${boxY}" width="20" height="20" rx="4" fill="${BACKGROUND}" stroke="#475569" stroke-width="2" />`);
+
+    // Progress ring for parents, like the timer's circular progress
+    let textRight = x + width - 16;
+    if (progress) {
+        const radius = 11;
+        const circumference = 2 * Math.PI * radius;
+        const ringX = x + width - 26;
+        const offset = circumference - (progress.done / progress.total) * circumference;
+        parts.push(`<circle cx="${ringX}" cy="${centerY}" r="${radius}" fill="none" stroke="#334155" stroke-width="3" />`);
+        parts.push(`<circle cx="${ringX}" cy="${centerY}" r="${radius}" fill="none" stroke="#14b8a6" stroke-width="3" stroke-linecap="round" stroke-dasharray="${circumference}" stroke-dashoffset="${offset}" transform="rotate(-90 ${ringX} ${centerY})" />`);
+        parts.push(`<text x="${ringX}" y="${centerY + 3}" font-size="8" fill="#94a3b8" text-anchor="middle">${progress.done}/${progress.total}</text>`);
+        textRight = ringX - radius - 8;
+    }
+
+    const textX = boxX + 20 + 12;
+    const maxLines = Math.max(1, Math.floor((height - 16) / LINE_HEIGHT));
+    const lines = wrapText(task.title, Math.max(4, Math.floor((textRight - textX) / CHAR_WIDTH)), maxLines);
+    const firstBaseline = centerY - ((lines.length - 1) * LINE_HEIGHT) / 2 + TITLE_SIZE / 3;
+    lines.forEach((line, i) => {
+        parts.push(`<text x="${textX}" y="${firstBaseline + i * LINE_HEIGHT}" font-size="${TITLE_SIZE}" font-weight="500" fill="${isCompleted ? MUTED : colors.text}"${isCompleted ? ' text-decoration="line-through"' : ''}>${escapeXml(line)}</text>`);
+    });
+
+    // Notes become the node's tooltip in SVG viewers.
+    const tooltip = task.notes ? `<title>${escapeXml(`${task.title}\n\n${task.notes}`)}</title>` : '';
+    return `<g${isCompleted ? ' opacity="0.5"' : ''}>${tooltip}${parts.join('')}</g>`;
+};
+
+// A standalone SVG of the whole mindmap, independent of what the live view has rendered.
+export const renderMindmapSvg = (
+    positions: NodePosition[],
+    connections: Connections,
+    layout: MindmapLayout,
+    canvas: { width: number; height: number },
+    blockers: Map<string, Task[]>,
+): { svg: string; width: number; height: number } => {
+    const posMap = new Map(positions.map(p => [p.task.id, p]));
+    let left = 0, top = 0, right = canvas.width, bottom = canvas.height;
+    const grow = (bounds: { left: number; top: number; right: number; bottom: number }) => {
+        left = Math.min(left, bounds.left);
+        top = Math.min(top, bounds.top);
+        right = Math.max(right, bounds.right);
+        bottom = Math.max(bottom, bounds.bottom);
+    };
+
+    const hierarchy: string[] = [];
+    positions.forEach(parent => {
+        if (parent.task.collapsed) return;
+        parent.task.children.forEach(child => {
+            const childPos = posMap.get(child.id);
+            if (!childPos) return;
+            const curve = hierarchyCurve(parent, childPos, layout);
+            grow(curveBounds(curve));
+            hierarchy.push(`<path d="${curvePath(curve)}" fill="none" stroke-width="2" stroke="${CONNECTOR_COLORS[childPos.depth % CONNECTOR_COLORS.length]}" />`);
+        });
+    });
+
+    const custom: string[] = [];
+    const labels: string[] = [];
+    Object.entries(connections).forEach(([sourceId, sourceConnections]) => {
+        const source = posMap.get(sourceId);
+        if (!source) return;
+        sourceConnections.forEach(connection => {
+            const target = posMap.get(connection.targetId);
+            if (!target) return;
+            const curve = connectionCurve(source, target, layout, canvas);
+            grow(curveBounds(curve));
+            const isBlocking = blockers.get(connection.targetId)?.some(blocker => blocker.id === sourceId) ?? false;
+            const isResolved = connection.type === ConnectionType.Blocks && !isBlocking;
+            const style = isResolved ? { stroke: MUTED, width: 2, dashArray: undefined, arrow: true } : CONNECTION_COLORS[connection.type];
+            const marker = style.arrow ? ` marker-end="url(#arrow-${isResolved ? 'resolved' : connection.type})"` : '';
+            const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : '';
+            custom.push(`<path d="${curvePath(curve)}" fill="none" stroke="${style.stroke}" stroke-width="${style.width}"${dash}${marker} />`);
+            if (connection.label) {
+                const mid = curveMidpoint(curve);
+                const text = connection.label.length > 24 ? `${connection.label.slice(0, 23)}…` : connection.label;
+                const pillWidth = text.length * 6.5 + 16;
+                labels.push(`<rect x="${mid.x - pillWidth / 2}" y="${mid.y - 10}" width="${pillWidth}" height="20" rx="10" fill="${NODE_FILL}" stroke="#475569" />`);
+                labels.push(`<text x="${mid.x}" y="${mid.y + 4}" font-size="12" fill="#cbd5e1" text-anchor="middle">${escapeXml(text)}</text>`);
+            }
+        });
+    });
+
+    const marker = (id: string, color: string) =>
+        `<marker id="arrow-${id}" markerWidth="10" markerHeight="7" refX="8" refY="3.5" orient="auto" markerUnits="strokeWidth"><polygon points="0 0, 10 3.5, 0 7" fill="${color}" /></marker>`;
+    const width = Math.ceil(right - left + MARGIN * 2);
+    const height = Math.ceil(bottom - top + MARGIN * 2);
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${left - MARGIN} ${top - MARGIN} ${width} ${height}" font-family="${FONT}">`,
+        `<defs>${marker('resolved', MUTED)}${marker(ConnectionType.Follows, '#0284c7')}${marker(ConnectionType.Blocks, '#f59e0b')}</defs>`,
+        `<rect x="${left - MARGIN}" y="${top - MARGIN}" width="${width}" height="${height}" fill="${BACKGROUND}" />`,
+        `<g>${hierarchy.join('')}</g>`,
+        `<g>${custom.join('')}</g>`,
+        `<g>${positions.map(renderNode).join('')}</g>`,
+        `<g>${labels.join('')}</g>`,
+        '</svg>',
+    ].join('\n');
+    return { svg, width, height };
+};
+
+// The largest scale at or below `scale` that the browser can still draw in one canvas.
+export const clampPngScale = (width: number, height: number, scale: number): number =>
+    Math.min(scale, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height, Math.sqrt(MAX_CANVAS_AREA / (width * height)));
+
+// Rasterizes an SVG from renderMindmapSvg.
+export const svgToPng = async (svg: string, width: number, height: number, scale: number): Promise<Blob> => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available in this browser.');
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        return await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error('The image is too large to export.')),
+            'image/png'
+        ));
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,356 @@
+import { MindmapLayout, Task } from '../types';
+
+// Defaults for nodes that haven't been measured yet.
+const NODE_WIDTH = 256; // w-64
+const NODE_HEIGHT = 80;  // min-h-[5rem] -> approx 80px
+const H_SPACING = 120;
+const V_SPACING = 60; // Increased spacing for clarity
+const COMPACT_H_SPACING = 60;
+const COMPACT_V_SPACING = 16;
+const RADIAL_RING_GAP = 100;
+const RADIAL_NODE_GAP = 24;
+
+export const LAYOUT_LABELS: { [layout in MindmapLayout]: string } = {
+    horizontal: 'Left to right',
+    vertical: 'Top down',
+    radial: 'Radial',
+    compact: 'Compact',
+};
+
+// Which arrow key leads to a node's parent, first child and siblings, following the direction
+// the tree grows in.
+export const NAVIGATION_KEYS: { [layout in MindmapLayout]: { parent: string; child: string; previous: string; next: string } } = {
+    horizontal: { parent: 'ArrowLeft', child: 'ArrowRight', previous: 'ArrowUp', next: 'ArrowDown' },
+    vertical: { parent: 'ArrowUp', child: 'ArrowDown', previous: 'ArrowLeft', next: 'ArrowRight' },
+    radial: { parent: 'ArrowLeft', child: 'ArrowRight', previous: 'ArrowUp', next: 'ArrowDown' },
+    compact: { parent: 'ArrowLeft', child: 'ArrowRight', previous: 'ArrowUp', next: 'ArrowDown' },
+};
+
+export type NodeSize = { width: number; height: number };
+export type NodePosition = { task: Task; x: number; y: number; depth: number; width: number; height: number; };
+export type Point = { x: number; y: number };
+export interface Curve { start: Point; c1: Point; c2: Point; end: Point }
+
+export interface MindmapLayoutResult {
+    positions: NodePosition[];
+    width: number;
+    height: number;
+}
+
+const visibleChildren = (task: Task): Task[] => task.collapsed ? [] : task.children;
+
+const transpose = (p: Point): Point => ({ x: p.y, y: p.x });
+
+// Swaps both the coordinates and the size, for laying out or routing top-down as if left-to-right.
+const transposeNode = (p: NodePosition): NodePosition => ({ ...p, x: p.y, y: p.x, width: p.height, height: p.width });
+
+type SizeOf = (task: Task) => NodeSize;
+
+// Where each depth level starts along the depth axis: every level is as deep as its largest node.
+const levelOffsets = (tasks: Task[], depthSize: (task: Task) => number, gap: number): number[] => {
+    const extents: number[] = [];
+    const visit = (task: Task, depth: number) => {
+        extents[depth] = Math.max(extents[depth] ?? 0, depthSize(task));
+        visibleChildren(task).forEach(child => visit(child, depth + 1));
+    };
+    tasks.forEach(task => visit(task, 0));
+    const offsets: number[] = [];
+    extents.reduce((offset, extent, depth) => {
+        offsets[depth] = offset;
+        return offset + extent + gap;
+    }, 0);
+    return offsets;
+};
+
+// Moves everything so the top-left node sits at the origin and measures the canvas.
+const normalize = (positions: NodePosition[]): MindmapLayoutResult => {
+    if (positions.length === 0) return { positions, width: 0, height: 0 };
+    // Large maps have too many nodes to spread into Math.min/max.
+    const minX = positions.reduce((min, p) => Math.min(min, p.x), Infinity);
+    const minY = positions.reduce((min, p) => Math.min(min, p.y), Infinity);
+    const shifted = positions.map(p => ({ ...p, x: p.x - minX, y: p.y - minY }));
+    return {
+        positions: shifted,
+        width: shifted.reduce((max, p) => Math.max(max, p.x + p.width), 0),
+        height: shifted.reduce((max, p) => Math.max(max, p.y + p.height), 0),
+    };
+};
+
+// The classic tree: every subtree gets a band as tall as its leaves need, and each parent is
+// centered on its band. Positions come out with x along the depth axis and `sizeOf` measured
+// the same way, so the top-down layout can run the same code transposed.
+const layoutBands = (tasks: Task[], sizeOf: SizeOf, depthGap: number, breadthGap: number): NodePosition[] => {
+    const positions: NodePosition[] = [];
+    const subtreeSizes = new Map<string, number>();
+    const offsets = levelOffsets(tasks, task => sizeOf(task).width, depthGap);
+
+    // Pass 1: Post-order traversal to calculate subtree sizes
+    const measure = (task: Task): number => {
+        const children = visibleChildren(task);
+        const childrenSize = children.length === 0
+            ? 0
+            : children.map(measure).reduce((sum, s) => sum + s, 0) + (children.length - 1) * breadthGap;
+        const size = Math.max(sizeOf(task).height, childrenSize);
+        subtreeSizes.set(task.id, size);
+        return size;
+    };
+
+    // Pass 2: Pre-order traversal to calculate final positions
+    const place = (task: Task, depth: number, start: number) => {
+        const size = subtreeSizes.get(task.id)!;
+        const { width, height } = sizeOf(task);
+        positions.push({ task, depth, width, height, x: offsets[depth], y: start + size / 2 - height / 2 });
+        const children = visibleChildren(task);
+        const childrenSize = children.reduce((sum, child) => sum + subtreeSizes.get(child.id)!, 0) + Math.max(0, children.length - 1) * breadthGap;
+        let childStart = start + (size - childrenSize) / 2;
+        for (const child of children) {
+            place(child, depth + 1, childStart);
+            childStart += subtreeSizes.get(child.id)! + breadthGap;
+        }
+    };
+
+    let current = 0;
+    for (const task of tasks) {
+        measure(task);
+        place(task, 0, current);
+        current += subtreeSizes.get(task.id)! + breadthGap * 2;
+    }
+    return positions;
+};
+
+// A tidy tree: subtrees are packed as close as their outlines allow rather than each taking
+// a full band, so a deep branch next to a shallow one doesn't waste the space beside it.
+type Shape = { nodes: NodePosition[]; top: number[]; bottom: number[] }; // outline per relative depth
+
+const packShapes = (shapes: Shape[]): { offsets: number[]; top: number[]; bottom: number[] } => {
+    const offsets: number[] = [];
+    const top: number[] = [];
+    const bottom: number[] = [];
+    shapes.forEach(shape => {
+        let offset = 0;
+        if (offsets.length > 0) {
+            offset = -Infinity;
+            shape.top.forEach((edge, d) => {
+                if (d < bottom.length) offset = Math.max(offset, bottom[d] + COMPACT_V_SPACING - edge);
+            });
+        }
+        offsets.push(offset);
+        shape.top.forEach((edge, d) => {
+            top[d] = d < top.length ? Math.min(top[d], edge + offset) : edge + offset;
+            bottom[d] = d < bottom.length ? Math.max(bottom[d], shape.bottom[d] + offset) : shape.bottom[d] + offset;
+        });
+    });
+    return { offsets, top, bottom };
+};
+
+const layoutTidy = (tasks: Task[], sizeOf: SizeOf): NodePosition[] => {
+    const levels = levelOffsets(tasks, task => sizeOf(task).width, COMPACT_H_SPACING);
+    const centerOf = (node: NodePosition) => node.y + node.height / 2;
+    const build = (task: Task, depth: number): Shape => {
+        const { width, height } = sizeOf(task);
+        const x = levels[depth];
+        const children = visibleChildren(task).map(child => build(child, depth + 1));
+        if (children.length === 0) {
+            return { nodes: [{ task, depth, x, y: 0, width, height }], top: [0], bottom: [height] };
+        }
+        const { offsets, top, bottom } = packShapes(children);
+        const firstCenter = centerOf(children[0].nodes[0]) + offsets[0];
+        const lastCenter = centerOf(children[children.length - 1].nodes[0]) + offsets[offsets.length - 1];
+        const y = (firstCenter + lastCenter) / 2 - height / 2;
+        const nodes = [{ task, depth, x, y, width, height }];
+        children.forEach((child, i) => child.nodes.forEach(node => nodes.push({ ...node, y: node.y + offsets[i] })));
+        return { nodes, top: [y, ...top], bottom: [y + height, ...bottom] };
+    };
+
+    const trees = tasks.map(task => build(task, 0));
+    const { offsets } = packShapes(trees);
+    return trees.flatMap((tree, i) => tree.nodes.map(node => ({ ...node, y: node.y + offsets[i] })));
+};
+
+// Top-level tasks sit on the first ring around a virtual root and every subtree gets a slice
+// of the circle proportional to its number of leaves.
+const layoutRadial = (tasks: Task[], sizeOf: SizeOf): NodePosition[] => {
+    const leafCounts = new Map<string, number>();
+    const narrowest: number[] = []; // fewest leaves under any node, per depth
+    let maxWidth = 0;
+    let maxHeight = 0;
+    const count = (task: Task, depth: number): number => {
+        maxWidth = Math.max(maxWidth, sizeOf(task).width);
+        maxHeight = Math.max(maxHeight, sizeOf(task).height);
+        const children = visibleChildren(task);
+        const leaves = children.length === 0 ? 1 : children.reduce((sum, child) => sum + count(child, depth + 1), 0);
+        leafCounts.set(task.id, leaves);
+        narrowest[depth] = Math.min(narrowest[depth] ?? Infinity, leaves);
+        return leaves;
+    };
+    const totalLeaves = tasks.reduce((sum, task) => sum + count(task, 0), 0);
+
+    // Far enough apart that rings don't touch, and that on every ring even the narrowest slice
+    // leaves room for a node next to its neighbours whatever the angle (the box's diagonal).
+    const minArc = Math.hypot(maxWidth, maxHeight) + RADIAL_NODE_GAP;
+    const ringStep = narrowest.reduce(
+        (step, leaves, depth) => Math.max(step, (totalLeaves * minArc) / (2 * Math.PI * leaves * (depth + 1))),
+        maxWidth + RADIAL_RING_GAP,
+    );
+
+    const positions: NodePosition[] = [];
+    const place = (task: Task, depth: number, startAngle: number, span: number) => {
+        const angle = startAngle + span / 2;
+        const radius = (depth + 1) * ringStep;
+        const { width, height } = sizeOf(task);
+        positions.push({
+            task,
+            depth,
+            width,
+            height,
+            x: radius * Math.cos(angle) - width / 2,
+            y: radius * Math.sin(angle) - height / 2,
+        });
+        let childStart = startAngle;
+        visibleChildren(task).forEach(child => {
+            const childSpan = span * leafCounts.get(child.id)! / leafCounts.get(task.id)!;
+            place(child, depth + 1, childStart, childSpan);
+            childStart += childSpan;
+        });
+    };
+
+    let start = -Math.PI / 2;
+    tasks.forEach(task => {
+        const span = 2 * Math.PI * leafCounts.get(task.id)! / totalLeaves;
+        place(task, 0, start, span);
+        start += span;
+    });
+    return positions;
+};
+
+// `sizes` holds the rendered size of each node that has been measured; long titles and badges
+// make nodes taller than the default.
+export const layoutMindmap = (tasks: Task[], layout: MindmapLayout, sizes: Map<string, NodeSize> = new Map()): MindmapLayoutResult => {
+    const sizeOf: SizeOf = task => sizes.get(task.id) ?? { width: NODE_WIDTH, height: NODE_HEIGHT };
+    switch (layout) {
+        case 'vertical': {
+            const transposedSize: SizeOf = task => {
+                const { width, height } = sizeOf(task);
+                return { width: height, height: width };
+            };
+            return normalize(layoutBands(tasks, transposedSize, H_SPACING, V_SPACING).map(transposeNode));
+        }
+        case 'radial':
+            return normalize(layoutRadial(tasks, sizeOf));
+        case 'compact':
+            return normalize(layoutTidy(tasks, sizeOf));
+        default:
+            return normalize(layoutBands(tasks, sizeOf, H_SPACING, V_SPACING));
+    }
+};
+
+// --- Connectors ---
+
+const center = (p: NodePosition): Point => ({ x: p.x + p.width / 2, y: p.y + p.height / 2 });
+
+const transposeCurve = (curve: Curve): Curve => ({
+    start: transpose(curve.start),
+    c1: transpose(curve.c1),
+    c2: transpose(curve.c2),
+    end: transpose(curve.end),
+});
+
+// S-curve that leaves and arrives horizontally.
+const sCurve = (start: Point, end: Point): Curve => {
+    const curveFactor = (end.x - start.x) * 0.4;
+    return { start, c1: { x: start.x + curveFactor, y: start.y }, c2: { x: end.x - curveFactor, y: end.y }, end };
+};
+
+// Where the line from a node's center towards `toward` leaves the node's box.
+const boxEdge = (node: NodePosition, toward: Point): Point => {
+    const c = center(node);
+    const dx = toward.x - c.x;
+    const dy = toward.y - c.y;
+    if (dx === 0 && dy === 0) return c;
+    const t = Math.min(dx === 0 ? Infinity : (node.width / 2) / Math.abs(dx), dy === 0 ? Infinity : (node.height / 2) / Math.abs(dy));
+    return { x: c.x + dx * t, y: c.y + dy * t };
+};
+
+// A gently bowed line between two nodes' edges, for the radial layout.
+const bowedLine = (from: NodePosition, to: NodePosition, bend: number): Curve => {
+    const start = boxEdge(from, center(to));
+    const end = boxEdge(to, center(from));
+    const normal = { x: -(end.y - start.y) * bend, y: (end.x - start.x) * bend };
+    return {
+        start,
+        c1: { x: start.x + (end.x - start.x) / 3 + normal.x, y: start.y + (end.y - start.y) / 3 + normal.y },
+        c2: { x: start.x + (end.x - start.x) * 2 / 3 + normal.x, y: start.y + (end.y - start.y) * 2 / 3 + normal.y },
+        end,
+    };
+};
+
+export const hierarchyCurve = (parent: NodePosition, child: NodePosition, layout: MindmapLayout): Curve => {
+    switch (layout) {
+        case 'vertical':
+            return transposeCurve(sCurve(
+                transpose({ x: parent.x + parent.width / 2, y: parent.y + parent.height }),
+                transpose({ x: child.x + child.width / 2, y: child.y }),
+            ));
+        case 'radial':
+            return bowedLine(parent, child, 0);
+        default:
+            return sCurve({ x: parent.x + parent.width, y: parent.y + parent.height / 2 }, { x: child.x, y: child.y + child.height / 2 });
+    }
+};
+
+// A custom connection in a layout whose depth runs along x. `breadth` is the canvas size across it.
+const flowCurve = (source: NodePosition, target: NodePosition, breadth: number): Curve => {
+    const start = { x: source.x + source.width, y: source.y + source.height / 2 };
+    const end = { x: target.x, y: target.y + target.height / 2 };
+    // When connecting from a deeper node to a shallower one (right-to-left "backwards" connection),
+    // use a large, non-intersecting arc to maintain clarity.
+    if (source.depth > target.depth) {
+        const midPointY = (start.y + end.y) / 2;
+        const verticalGap = 100;
+        // Route the arc above the main diagram if the connection is mostly in the top half,
+        // otherwise route it below to avoid clutter.
+        const detourY = midPointY < breadth / 2 ? -verticalGap : breadth + verticalGap;
+        // The horizontal extent of the curve's control points, scales with distance.
+        const controlPointXOffset = Math.max(60, (start.x - end.x) * 0.2);
+        return { start, c1: { x: start.x + controlPointXOffset, y: detourY }, c2: { x: end.x - controlPointXOffset, y: detourY }, end };
+    }
+    // For forward or same-level connections, a standard S-curve is cleaner and more direct.
+    return sCurve(start, end);
+};
+
+export const connectionCurve = (source: NodePosition, target: NodePosition, layout: MindmapLayout, canvas: { width: number; height: number }): Curve => {
+    switch (layout) {
+        case 'vertical':
+            return transposeCurve(flowCurve(transposeNode(source), transposeNode(target), canvas.width));
+        case 'radial':
+            return bowedLine(source, target, 0.2);
+        default:
+            return flowCurve(source, target, canvas.height);
+    }
+};
+
+// Where a connection being drawn starts from.
+export const outgoingAnchor = (node: NodePosition, layout: MindmapLayout): Point => {
+    switch (layout) {
+        case 'vertical': return { x: node.x + node.width / 2, y: node.y + node.height };
+        case 'radial': return center(node);
+        default: return { x: node.x + node.width, y: node.y + node.height / 2 };
+    }
+};
+
+export const curvePath = ({ start, c1, c2, end }: Curve): string =>
+    `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
+
+// The point halfway along a cubic Bézier.
+export const curveMidpoint = ({ start, c1, c2, end }: Curve): Point => ({
+    x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+    y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8,
+});
+
+// The box a curve stays inside: a Bézier never leaves the hull of its control points.
+export const curveBounds = ({ start, c1, c2, end }: Curve): { left: number; top: number; right: number; bottom: number } => ({
+    left: Math.min(start.x, c1.x, c2.x, end.x),
+    top: Math.min(start.y, c1.y, c2.y, end.y),
+    right: Math.max(start.x, c1.x, c2.x, end.x),
+    bottom: Math.max(start.y, c1.y, c2.y, end.y),
+});
@@ -0,0 +1,135 @@
+import { Task, TaskType, TimerState } from '../types';
+import { escapeXml } from './xml';
+
+// Plain-outline formats only carry structure, titles, notes, completion and the habit/todo type.
+// Imports always get fresh ids, like tasks created through handleAddTask.
+
+const createTask = (title: string, type: TaskType, completed: boolean, children: Task[], notes?: string): Task => ({
+    id: crypto.randomUUID(),
+    title,
+    type,
+    completed,
+    collapsed: false,
+    children,
+    timerState: TimerState.Idle,
+    ...(notes && { notes }),
+});
+
+// --- Markdown ---
+// Each task is a checklist item indented two spaces per level. Habits carry a "(habit)"
+// marker after the checkbox; todos are unmarked, so plain checklists import as todos.
+// Notes follow their task as a block quote at the indentation of its subtasks.
+
+const HABIT_MARKER = '(habit)';
+const MARKDOWN_ITEM = /^(\s*)[-*+]\s+(?:\[( |x|X)\]\s*)?(?:\((habit|todo)\)\s*)?(.*)$/;
+const MARKDOWN_NOTE = /^(\s*)>\s?(.*)$/;
+
+export const tasksToMarkdown = (tasks: Task[]): string => {
+    const lines: string[] = [];
+    const write = (task: Task, depth: number) => {
+        const marker = task.type === TaskType.Habit ? ` ${HABIT_MARKER}` : '';
+        lines.push(`${'  '.repeat(depth)}- [${task.completed ? 'x' : ' '}]${marker} ${task.title}`);
+        task.notes?.split(/\r?\n/).forEach(line => lines.push(`${'  '.repeat(depth + 1)}>${line ? ` ${line}` : ''}`));
+        task.children.forEach(child => write(child, depth + 1));
+    };
+    tasks.forEach(task => write(task, 0));
+    return lines.join('\n') + '\n';
+};
+
+export const markdownToTasks = (markdown: string): Task[] => {
+    const roots: Task[] = [];
+    // Open ancestors of the next item, each with the indentation width it was written at.
+    const stack: { indent: number; task: Task }[] = [];
+
+    markdown.split(/\r?\n/).forEach(line => {
+        // A quote indented like a subtask is a note on the nearest task above it that is indented
+        // less; anything else is an ordinary block quote and is skipped like other prose.
+        const note = line.match(MARKDOWN_NOTE);
+        if (note) {
+            const noteIndent = note[1].replace(/\t/g, '    ').length;
+            const owner = [...stack].reverse().find(entry => entry.indent < noteIndent);
+            if (owner) owner.task.notes = owner.task.notes === undefined ? note[2] : `${owner.task.notes}\n${note[2]}`;
+            return;
+        }
+        const match = line.match(MARKDOWN_ITEM);
+        if (!match) return;
+        const [, whitespace, checkbox, typeMarker, rawTitle] = match;
+        const title = rawTitle.trim();
+        if (!title) return;
+
+        const indent = whitespace.replace(/\t/g, '    ').length;
+        const task = createTask(title, typeMarker === 'habit' ? TaskType.Habit : TaskType.Todo, checkbox === 'x' || checkbox === 'X', []);
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+        if (stack.length > 0) {
+            stack[stack.length - 1].task.children.push(task);
+        } else {
+            roots.push(task);
+        }
+        stack.push({ indent, task });
+    });
+
+    return roots;
+};
+
+// --- OPML ---
+// Completion and notes use the `_complete` and `_note` attributes common to outliners; the task
+// type is kept in a custom `_taskType` attribute that other tools ignore.
+
+export const tasksToOpml = (tasks: Task[], title: string): string => {
+    const lines: string[] = [];
+    const write = (task: Task, depth: number) => {
+        const indent = '  '.repeat(depth + 2);
+        const note = task.notes ? ` _note="${escapeXml(task.notes).replace(/\r?\n/g, '&#10;')}"` : '';
+        const attributes = `text="${escapeXml(task.title)}" _taskType="${task.type}"${task.completed ? ' _complete="true"' : ''}${note}`;
+        if (task.children.length === 0) {
+            lines.push(`${indent}<outline ${attributes}/>`);
+            return;
+        }
+        lines.push(`${indent}<outline ${attributes}>`);
+        task.children.forEach(child => write(child, depth + 1));
+        lines.push(`${indent}</outline>`);
+    };
+    tasks.forEach(task => write(task, 0));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        `  <head><title>${escapeXml(title)}</title></head>`,
+        '  <body>',
+        ...lines,
+        '  </body>',
+        '</opml>',
+        '',
+    ].join('\n');
+};
+
+// Throws an Error with a user-facing message when the document is not OPML.
+export const opmlToTasks = (opml: string): Task[] => {
+    const doc = new DOMParser().parseFromString(opml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The file is not valid XML.');
+    }
+    const body = doc.querySelector('opml > body');
+    if (!body) throw new Error('The file has no OPML body.');
+
+    const readOutline = (element: Element): Task => {
+        const title = element.getAttribute('text') ?? element.getAttribute('title') ?? '';
+        const children = Array.from(element.children)
+            .filter(child => child.tagName === 'outline')
+            .map(readOutline);
+        return createTask(
+            title,
+            element.getAttribute('_taskType') === TaskType.Habit ? TaskType.Habit : TaskType.Todo,
+            element.getAttribute('_complete') === 'true',
+            children,
+            element.getAttribute('_note') ?? undefined,
+        );
+    };
+
+    return Array.from(body.children)
+        .filter(child => child.tagName === 'outline')
+        .map(readOutline);
+};
@@ -0,0 +1,72 @@
+import { Pomodoro, PomodoroPhase, PomodoroSettings, Task, TimerState } from '../types';
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4,
+};
+
+// A phase that ended longer ago than this was not watched, so the next one is not
+// started automatically; otherwise a closed tab would keep racking up pomodoros.
+const AUTO_ADVANCE_GRACE_MS = 60 * 1000;
+
+export const PHASE_LABELS: { [phase in PomodoroPhase]: string } = {
+    [PomodoroPhase.Work]: 'Focus',
+    [PomodoroPhase.ShortBreak]: 'Break',
+    [PomodoroPhase.LongBreak]: 'Long break',
+};
+
+export const getPhaseDuration = (settings: PomodoroSettings, phase: PomodoroPhase): number => {
+    switch (phase) {
+        case PomodoroPhase.ShortBreak: return settings.shortBreakMinutes * 60;
+        case PomodoroPhase.LongBreak: return settings.longBreakMinutes * 60;
+        case PomodoroPhase.Work:
+        default: return settings.workMinutes * 60;
+    }
+};
+
+const getNextPhase = (pomodoro: Pomodoro): Pomodoro => {
+    if (pomodoro.phase !== PomodoroPhase.Work) {
+        return { ...pomodoro, phase: PomodoroPhase.Work };
+    }
+    const cycle = pomodoro.cycle + 1;
+    return cycle >= pomodoro.settings.cyclesBeforeLongBreak
+        ? { ...pomodoro, phase: PomodoroPhase.LongBreak, cycle: 0 }
+        : { ...pomodoro, phase: PomodoroPhase.ShortBreak, cycle };
+};
+
+// Puts a task's timer into Pomodoro mode at the start of a work phase, ready to start.
+export const enterPomodoro = (task: Task, settings: PomodoroSettings): Task => {
+    const duration = getPhaseDuration(settings, PomodoroPhase.Work);
+    return {
+        ...task,
+        pomodoro: { settings, phase: PomodoroPhase.Work, cycle: 0 },
+        timerDuration: duration,
+        timerRemaining: duration,
+        timerDeadline: undefined,
+        timerStartedAt: undefined,
+        timerState: TimerState.Idle,
+    };
+};
+
+// Moves a running Pomodoro whose phase just ended on to the next phase. The next phase is
+// timed from the old deadline so a throttled background tab does not lose time.
+export const advancePomodoro = (task: Task, now: number): Task => {
+    if (!task.pomodoro || task.timerDeadline === undefined) return task;
+    const next = getNextPhase(task.pomodoro);
+    const duration = getPhaseDuration(next.settings, next.phase);
+    const completedWork = task.pomodoro.phase === PomodoroPhase.Work ? 1 : 0;
+    const shouldAutoStart = now - task.timerDeadline < AUTO_ADVANCE_GRACE_MS;
+
+    return {
+        ...task,
+        pomodoro: next,
+        pomodoroCount: (task.pomodoroCount ?? 0) + completedWork,
+        timerDuration: duration,
+        timerRemaining: duration,
+        timerDeadline: shouldAutoStart ? task.timerDeadline + duration * 1000 : undefined,
+        timerStartedAt: shouldAutoStart ? task.timerDeadline : undefined,
+        timerState: shouldAutoStart ? TimerState.Running : TimerState.Idle,
+    };
+};
@@ -0,0 +1,7 @@
+import { Task } from '../types';
+
+// Completed leaves out of all leaves below a task; a task without subtasks counts as one leaf.
+export const computeProgress = (task: Task): { done: number; total: number } => {
+    if (task.children.length === 0) return { done: task.completed ? 1 : 0, total: 1 };
+    return task.children.map(computeProgress).reduce((sum, p) => ({ done: sum.done + p.done, total: sum.total + p.total }), { done: 0, total: 0 });
+};
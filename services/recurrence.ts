@@ -0,0 +1,95 @@
+import { Recurrence, RecurrenceFrequency, Task, TaskType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfDay = (time: number): Date => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date;
+};
+
+// Returns the timestamp at which the recurrence period containing `now` started.
+// A habit completed before this moment belongs to a previous period and is due again.
+export const getPeriodStart = (recurrence: Recurrence, now: number): number => {
+    const today = startOfDay(now);
+
+    switch (recurrence.frequency) {
+        case RecurrenceFrequency.Weekly: {
+            const weekdays = recurrence.weekdays && recurrence.weekdays.length > 0 ? recurrence.weekdays : [today.getDay()];
+            // Walk back to the most recent scheduled weekday (today included).
+            for (let offset = 0; offset < 7; offset++) {
+                const day = new Date(today);
+                day.setDate(today.getDate() - offset);
+                if (weekdays.includes(day.getDay())) return day.getTime();
+            }
+            return today.getTime();
+        }
+        case RecurrenceFrequency.Interval: {
+            const interval = Math.max(1, Math.floor(recurrence.interval ?? 1));
+            const anchor = startOfDay(recurrence.anchorDate ?? now);
+            // Rounding absorbs the hour gained or lost across a DST change.
+            const elapsedDays = Math.round((today.getTime() - anchor.getTime()) / DAY_MS);
+            const periodStart = new Date(anchor);
+            periodStart.setDate(anchor.getDate() + Math.floor(elapsedDays / interval) * interval);
+            return periodStart.getTime();
+        }
+        case RecurrenceFrequency.Monthly:
+            return new Date(today.getFullYear(), today.getMonth(), 1).getTime();
+        case RecurrenceFrequency.Daily:
+        default:
+            return today.getTime();
+    }
+};
+
+export const describeRecurrence = (recurrence: Recurrence): string => {
+    switch (recurrence.frequency) {
+        case RecurrenceFrequency.Weekly:
+            return recurrence.weekdays && recurrence.weekdays.length > 0
+                ? [...recurrence.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')
+                : 'Weekly';
+        case RecurrenceFrequency.Interval:
+            return (recurrence.interval ?? 1) === 1 ? 'Every day' : `Every ${recurrence.interval} days`;
+        case RecurrenceFrequency.Monthly:
+            return 'Monthly';
+        case RecurrenceFrequency.Daily:
+        default:
+            return 'Daily';
+    }
+};
+
+// The schedule each task without its own recurrence picks up from its nearest scheduled ancestor.
+export const collectInheritedRecurrence = (tasks: Task[]): Map<string, Recurrence> => {
+    const inherited = new Map<string, Recurrence>();
+    const visit = (task: Task, fromAncestors?: Recurrence) => {
+        if (!task.recurrence && fromAncestors) inherited.set(task.id, fromAncestors);
+        task.children.forEach(child => visit(child, task.recurrence ?? fromAncestors));
+    };
+    tasks.forEach(task => visit(task));
+    return inherited;
+};
+
+// Un-completes every habit whose recurrence period has rolled over since it was completed.
+// Habits without their own schedule follow the nearest scheduled ancestor, so resetting
+// "Morning Routine" resets its whole subtree. Todos and archived tasks are never reset.
+// Returns the original array when nothing changed so callers can skip a state update.
+export const resetRecurringHabits = (tasks: Task[], now: number, inherited?: Recurrence): Task[] => {
+    let changed = false;
+    const nextTasks = tasks.map(task => {
+        if (task.archivedAt !== undefined) return task;
+        const recurrence = task.recurrence ?? inherited;
+        const children = resetRecurringHabits(task.children, now, recurrence);
+        // Completions recorded before completedAt existed are treated as stale.
+        const isDue = task.type === TaskType.Habit
+            && task.completed
+            && recurrence !== undefined
+            && (task.completedAt ?? 0) < getPeriodStart(recurrence, now);
+
+        if (!isDue && children === task.children) return task;
+        changed = true;
+        return isDue
+            ? { ...task, children, completed: false, completedAt: undefined }
+            : { ...task, children };
+    });
+    return changed ? nextTasks : tasks;
+};
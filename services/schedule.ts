@@ -0,0 +1,62 @@
+import { Task } from '../types';
+import { isTaskComplete } from './dependencies';
+import { fromDayKey, toDayKey } from './history';
+import { SearchMatch } from './search';
+
+export type DueStatus = 'overdue' | 'today' | 'soon' | 'later';
+
+const DUE_SOON_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const hasTime = (value: string): boolean => value.includes('T');
+
+// Dates are stored the way <input type="date"> and "datetime-local" produce them.
+// Built through the Date constructor so a time on a DST-change day isn't an hour off.
+export const parseScheduleDate = (value: string): number => {
+    if (!hasTime(value)) return fromDayKey(value);
+    const [day, time] = value.split('T');
+    const [year, month, date] = day.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(year, month - 1, date, hours, minutes).getTime();
+};
+
+// A task with only a due day is overdue once that day is over; with a time, once the time passes.
+export const getDueStatus = (task: Task, now: number): DueStatus | null => {
+    if (!task.dueDate || isTaskComplete(task)) return null;
+    const dueDay = task.dueDate.split('T')[0];
+    const today = toDayKey(now);
+    const isPastDue = hasTime(task.dueDate) ? parseScheduleDate(task.dueDate) < now : dueDay < today;
+    if (isPastDue) return 'overdue';
+    if (dueDay === today) return 'today';
+    return fromDayKey(dueDay) - fromDayKey(today) <= DUE_SOON_DAYS * DAY_MS ? 'soon' : 'later';
+};
+
+export const isNotStarted = (task: Task, now: number): boolean =>
+    task.startDate !== undefined && parseScheduleDate(task.startDate) > now;
+
+export const formatScheduleDate = (value: string, now: number): string => {
+    const day = value.split('T')[0];
+    const today = toDayKey(now);
+    const dayDiff = Math.round((fromDayKey(day) - fromDayKey(today)) / DAY_MS);
+    const date = new Date(parseScheduleDate(value));
+    let label: string;
+    if (dayDiff === 0) label = 'Today';
+    else if (dayDiff === 1) label = 'Tomorrow';
+    else if (dayDiff === -1) label = 'Yesterday';
+    else label = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: day.slice(0, 4) === today.slice(0, 4) ? undefined : 'numeric' });
+    return hasTime(value) ? `${label} ${date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}` : label;
+};
+
+// Open tasks that are due today or overdue, earliest first, with their ancestors for context.
+export const collectDueTasks = (tasks: Task[], now: number): SearchMatch[] => {
+    const due: { match: SearchMatch; dueAt: number }[] = [];
+    const visit = (task: Task, path: Task[]) => {
+        const status = getDueStatus(task, now);
+        if (task.dueDate && (status === 'overdue' || status === 'today')) {
+            due.push({ match: { task, path }, dueAt: parseScheduleDate(task.dueDate) });
+        }
+        task.children.forEach(child => visit(child, [...path, task]));
+    };
+    tasks.forEach(task => visit(task, []));
+    return due.sort((a, b) => a.dueAt - b.dueAt).map(({ match }) => match);
+};
@@ -0,0 +1,74 @@
+import { Task, TaskFilter, TimerState } from '../types';
+import { isTaskComplete } from './dependencies';
+import { isNotStarted } from './schedule';
+
+export interface SearchMatch {
+    task: Task;
+    path: Task[]; // ancestors, outermost first
+}
+
+export const EMPTY_FILTER: TaskFilter = {
+    query: '',
+    type: 'all',
+    status: 'all',
+    runningTimer: false,
+};
+
+export const isFilterActive = (filter: TaskFilter): boolean =>
+    filter.query.trim() !== '' || filter.type !== 'all' || filter.status !== 'all' || filter.runningTimer;
+
+// Something that can be picked up right now: an open task without subtasks that has started
+// and isn't waiting on anything.
+const isReady = (task: Task, blockedIds: Set<string>, now: number): boolean =>
+    task.children.length === 0 && !task.completed && !blockedIds.has(task.id) && !isNotStarted(task, now);
+
+const matchesQuery = (task: Task, query: string): boolean =>
+    task.title.toLowerCase().includes(query)
+    || (task.tags?.some(tag => tag.includes(query)) ?? false)
+    || (task.notes?.toLowerCase().includes(query) ?? false);
+
+const matchesFilter = (task: Task, filter: TaskFilter, query: string, blockedIds: Set<string>, now: number): boolean => {
+    if (query && !matchesQuery(task, query)) return false;
+    if (filter.type !== 'all' && task.type !== filter.type) return false;
+    if (filter.status === 'ready') {
+        if (!isReady(task, blockedIds, now)) return false;
+    } else if (filter.status !== 'all' && isTaskComplete(task) !== (filter.status === 'completed')) {
+        return false;
+    }
+    if (filter.runningTimer && task.timerState !== TimerState.Running) return false;
+    return true;
+};
+
+// Every task in the tree (collapsed subtrees included) that passes the filter, in outline order.
+// `blockedIds` are the tasks held up by dependencies, for the "ready" status.
+export const findMatches = (tasks: Task[], filter: TaskFilter, blockedIds: Set<string> = new Set()): SearchMatch[] => {
+    if (!isFilterActive(filter)) return [];
+    const query = filter.query.trim().toLowerCase();
+    const now = Date.now();
+    const matches: SearchMatch[] = [];
+    const visit = (task: Task, path: Task[]) => {
+        if (matchesFilter(task, filter, query, blockedIds, now)) matches.push({ task, path });
+        task.children.forEach(child => visit(child, [...path, task]));
+    };
+    tasks.forEach(task => visit(task, []));
+    return matches;
+};
+
+// Returns a copy of the tree for display with the ancestors of the given tasks expanded.
+// The stored `collapsed` flags are left alone, so clearing the search restores the outline.
+export const expandAncestors = (tasks: Task[], ids: Set<string>): Task[] => {
+    const reveal = (list: Task[]): { tasks: Task[]; containsMatch: boolean } => {
+        let containsMatch = false;
+        let changed = false;
+        const nextList = list.map(task => {
+            const children = reveal(task.children);
+            if (children.containsMatch || ids.has(task.id)) containsMatch = true;
+            if (!children.containsMatch) return task;
+            if (!task.collapsed && children.tasks === task.children) return task;
+            changed = true;
+            return { ...task, collapsed: false, children: children.tasks };
+        });
+        return { tasks: changed ? nextList : list, containsMatch };
+    };
+    return reveal(tasks).tasks;
+};
@@ -0,0 +1,38 @@
+// Builds a short WAV clip of sine-wave notes played one after another and returns an object
+// URL for it, so distinct alert sounds don't have to be shipped as base64 audio files.
+export const createToneUrl = (frequencies: number[], noteMs: number, volume: number = 0.6): string => {
+    const sampleRate = 8000;
+    const samplesPerNote = Math.round(sampleRate * noteMs / 1000);
+    const sampleCount = samplesPerNote * frequencies.length;
+    const buffer = new ArrayBuffer(44 + sampleCount);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    // 8-bit mono PCM header
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + sampleCount, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 1, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate, true);
+    view.setUint16(32, 1, true);
+    view.setUint16(34, 8, true);
+    writeString(36, 'data');
+    view.setUint32(40, sampleCount, true);
+
+    frequencies.forEach((frequency, note) => {
+        for (let i = 0; i < samplesPerNote; i++) {
+            // Fade each note out to avoid clicks between them.
+            const envelope = 1 - i / samplesPerNote;
+            const sample = Math.sin(2 * Math.PI * frequency * i / sampleRate) * envelope * volume;
+            view.setUint8(44 + note * samplesPerNote + i, Math.round(128 + sample * 127));
+        }
+    });
+
+    return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
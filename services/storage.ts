@@ -0,0 +1,216 @@
+import { AppSettings, Connections, MindmapTransform, Task, TaskTemplate, TimerSession, TrashEntry, WorkspaceState } from '../types';
+import { upgradeConnections } from './connections';
+
+export interface StoredValues {
+    tasks: Task[];
+    connections: Connections;
+    settings: AppSettings;
+    timeLog: TimerSession[];
+    templates: TaskTemplate[];
+    workspaces: WorkspaceState;
+    trash: TrashEntry[];
+    // Kept apart from `workspaces` because it is saved whenever the mindmap stops moving.
+    mindmapTransforms: { [workspaceId: string]: MindmapTransform };
+}
+
+export type StorageKey = keyof StoredValues;
+
+// A persistence backend. `previous` is the value the caller last handed to `save` for the
+// same key (undefined if unknown), which lets a backend write only what changed.
+export interface StorageBackend {
+    readonly kind: 'indexeddb' | 'localstorage';
+    readonly fallbackReason?: string; // set when IndexedDB failed and localStorage stands in for it
+    load<K extends StorageKey>(key: K): Promise<StoredValues[K] | undefined>;
+    save<K extends StorageKey>(key: K, value: StoredValues[K], previous: StoredValues[K] | undefined): Promise<void>;
+}
+
+export const isQuotaError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// --- localStorage ---
+// Keeps the original keys so data written by earlier versions of the app stays readable.
+
+const LOCAL_STORAGE_KEYS: { [K in StorageKey]: string } = {
+    tasks: 'nested-tasks-v4-nordic',
+    connections: 'nested-tasks-connections-v1',
+    settings: 'nested-tasks-settings-v1',
+    timeLog: 'nested-tasks-time-log-v1',
+    templates: 'nested-tasks-templates-v1',
+    workspaces: 'nested-tasks-workspaces-v1',
+    trash: 'nested-tasks-trash-v1',
+    mindmapTransforms: 'nested-tasks-mindmap-transforms-v1',
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+    kind: 'localstorage',
+    async load(key) {
+        const item = window.localStorage.getItem(LOCAL_STORAGE_KEYS[key]);
+        return item ? JSON.parse(item) : undefined;
+    },
+    async save(key, value) {
+        window.localStorage.setItem(LOCAL_STORAGE_KEYS[key], JSON.stringify(value));
+    },
+});
+
+// --- IndexedDB ---
+// Tasks are stored one record per task (with parentId and position) so an edit only rewrites
+// the records that changed. Other values live as whole entries in a key-value store.
+
+const DB_NAME = 'nested-habit-tracker';
+const DB_VERSION = 1;
+const TASK_STORE = 'tasks';
+const VALUE_STORE = 'values';
+const MIGRATED_FLAG = 'migratedFromLocalStorage';
+
+type TaskRecord = Omit<Task, 'children'> & { parentId: string | null; position: number };
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASK_STORE)) db.createObjectStore(TASK_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(VALUE_STORE)) db.createObjectStore(VALUE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The database is blocked by another tab.'));
+});
+
+const flattenTasks = (tasks: Task[]): Map<string, TaskRecord> => {
+    const records = new Map<string, TaskRecord>();
+    const visit = (task: Task, parentId: string | null, position: number) => {
+        const { children, ...fields } = task;
+        records.set(task.id, { ...fields, parentId, position });
+        children.forEach((child, i) => visit(child, task.id, i));
+    };
+    tasks.forEach((task, i) => visit(task, null, i));
+    return records;
+};
+
+const buildTree = (records: TaskRecord[]): Task[] => {
+    const childrenOf = new Map<string | null, TaskRecord[]>();
+    records.forEach(record => {
+        const siblings = childrenOf.get(record.parentId) ?? [];
+        siblings.push(record);
+        childrenOf.set(record.parentId, siblings);
+    });
+    const build = (parentId: string | null): Task[] => (childrenOf.get(parentId) ?? [])
+        .sort((a, b) => a.position - b.position)
+        .map(({ parentId: _parentId, position: _position, ...fields }) => ({ ...fields, children: build(fields.id) }));
+    return build(null);
+};
+
+// Unchanged fields keep their identity through immutable updates, so a shallow compare
+// is enough to spot the records that need rewriting.
+const isSameRecord = (a: TaskRecord, b: TaskRecord): boolean => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+        if (a[key as keyof TaskRecord] !== b[key as keyof TaskRecord]) return false;
+    }
+    return true;
+};
+
+const createIndexedDbBackend = (db: IDBDatabase): StorageBackend => ({
+    kind: 'indexeddb',
+    async load(key) {
+        if (key === 'tasks') {
+            const transaction = db.transaction([TASK_STORE, VALUE_STORE], 'readonly');
+            const [records, hasTasks] = await Promise.all([
+                requestToPromise(transaction.objectStore(TASK_STORE).getAll() as IDBRequest<TaskRecord[]>),
+                requestToPromise(transaction.objectStore(VALUE_STORE).get('tasks')),
+            ]);
+            // An empty tree and a tree never saved look the same in the task store.
+            return hasTasks ? buildTree(records) as StoredValues[typeof key] : undefined;
+        }
+        const transaction = db.transaction(VALUE_STORE, 'readonly');
+        return requestToPromise(transaction.objectStore(VALUE_STORE).get(key));
+    },
+    async save(key, value, previous) {
+        if (key !== 'tasks') {
+            const transaction = db.transaction(VALUE_STORE, 'readwrite');
+            transaction.objectStore(VALUE_STORE).put(value, key);
+            return transactionDone(transaction);
+        }
+
+        const transaction = db.transaction([TASK_STORE, VALUE_STORE], 'readwrite');
+        const store = transaction.objectStore(TASK_STORE);
+        const nextRecords = flattenTasks(value as Task[]);
+        if (previous === undefined) {
+            store.clear();
+            nextRecords.forEach(record => store.put(record));
+        } else {
+            const previousRecords = flattenTasks(previous as Task[]);
+            nextRecords.forEach((record, id) => {
+                const previousRecord = previousRecords.get(id);
+                if (!previousRecord || !isSameRecord(previousRecord, record)) store.put(record);
+            });
+            previousRecords.forEach((_, id) => {
+                if (!nextRecords.has(id)) store.delete(id);
+            });
+        }
+        transaction.objectStore(VALUE_STORE).put(true, 'tasks');
+        return transactionDone(transaction);
+    },
+});
+
+const STORAGE_KEYS: StorageKey[] = ['tasks', 'connections', 'settings', 'timeLog', 'templates', 'workspaces', 'trash', 'mindmapTransforms'];
+
+// Copies whatever the localStorage backend holds into IndexedDB the first time it is opened.
+// The localStorage entries are left in place so the fallback backend still has them.
+const migrateFromLocalStorage = async (db: IDBDatabase, backend: StorageBackend) => {
+    const flagTransaction = db.transaction(VALUE_STORE, 'readonly');
+    if (await requestToPromise(flagTransaction.objectStore(VALUE_STORE).get(MIGRATED_FLAG))) return;
+
+    const legacy = createLocalStorageBackend();
+    for (const key of STORAGE_KEYS) {
+        const value = await legacy.load(key).catch(() => undefined);
+        if (value !== undefined) await backend.save(key, value, undefined);
+    }
+    const transaction = db.transaction(VALUE_STORE, 'readwrite');
+    transaction.objectStore(VALUE_STORE).put(true, MIGRATED_FLAG);
+    await transactionDone(transaction);
+};
+
+// Prefers IndexedDB and falls back to localStorage when it is unavailable (e.g. some
+// private browsing modes) or fails to open.
+export const openStorage = async (): Promise<StorageBackend> => {
+    if (!('indexedDB' in window)) return createLocalStorageBackend();
+    try {
+        const db = await openDatabase();
+        const backend = createIndexedDbBackend(db);
+        await migrateFromLocalStorage(db, backend);
+        return backend;
+    } catch (error) {
+        return {
+            ...createLocalStorageBackend(),
+            fallbackReason: `The browser database could not be opened (${error instanceof Error ? error.message : error}), so this tab is using the copy kept in local storage, which may be out of date. Reload to try again.`,
+        };
+    }
+};
+
+export const loadStoredValues = async (storage: StorageBackend): Promise<Partial<StoredValues>> => {
+    const values: Partial<StoredValues> = {};
+    // A key that fails to load is not skipped: the app would start from its defaults and save
+    // them over the stored data. The error reaches the startup error screen instead.
+    for (const key of STORAGE_KEYS) {
+        const value = await storage.load(key);
+        if (value !== undefined) (values as Record<StorageKey, unknown>)[key] = value;
+    }
+    if (values.connections) {
+        // Connections saved before they had types are bare target ids.
+        const legacyBlocking = (values.settings as { connectionsBlock?: boolean } | undefined)?.connectionsBlock === true;
+        values.connections = upgradeConnections(values.connections, legacyBlocking);
+    }
+    return values;
+};
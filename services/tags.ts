@@ -0,0 +1,63 @@
+import { Priority, TagFilter, Task } from '../types';
+
+export const PRIORITY_LABELS: { [priority in Priority]: string } = {
+    [Priority.High]: 'High',
+    [Priority.Medium]: 'Medium',
+    [Priority.Low]: 'Low',
+};
+
+export const EMPTY_TAG_FILTER: TagFilter = { tags: [], priority: 'all' };
+
+export const isTagFilterActive = (filter: TagFilter): boolean =>
+    filter.tags.length > 0 || filter.priority !== 'all';
+
+// Splits "work, @home #errand" into tags. "@" marks a context and is kept; anything else
+// becomes a "#" tag.
+export const parseTags = (input: string): string[] => {
+    const tags = input
+        .split(/[\s,]+/)
+        .map(tag => tag.trim().toLowerCase())
+        .filter(tag => tag !== '' && tag !== '#' && tag !== '@')
+        .map(tag => tag.startsWith('@') || tag.startsWith('#') ? tag : `#${tag}`);
+    return [...new Set(tags)];
+};
+
+export const collectTags = (tasks: Task[]): string[] => {
+    const tags = new Set<string>();
+    const visit = (task: Task) => {
+        task.tags?.forEach(tag => tags.add(tag));
+        task.children.forEach(visit);
+    };
+    tasks.forEach(visit);
+    return [...tags].sort();
+};
+
+// Tags each task picks up from its ancestors, for when tags are inherited down the tree.
+export const collectInheritedTags = (tasks: Task[]): Map<string, string[]> => {
+    const inherited = new Map<string, string[]>();
+    const visit = (task: Task, fromAncestors: string[]) => {
+        if (fromAncestors.length > 0) inherited.set(task.id, fromAncestors);
+        const passedOn = task.tags?.length ? [...new Set([...fromAncestors, ...task.tags])] : fromAncestors;
+        task.children.forEach(child => visit(child, passedOn));
+    };
+    tasks.forEach(task => visit(task, []));
+    return inherited;
+};
+
+// Keeps the tasks that pass the filter plus their ancestors, so matches keep their place in the
+// outline. Returns the same array when the filter is inactive.
+export const filterTaskTree = (tasks: Task[], filter: TagFilter, inheritedTags: Map<string, string[]>): Task[] => {
+    if (!isTagFilterActive(filter)) return tasks;
+    const matches = (task: Task): boolean => {
+        if (filter.priority !== 'all' && task.priority !== filter.priority) return false;
+        const tags = new Set([...(inheritedTags.get(task.id) ?? []), ...(task.tags ?? [])]);
+        return filter.tags.every(tag => tags.has(tag));
+    };
+    const prune = (list: Task[]): Task[] => list.flatMap(task => {
+        const children = prune(task.children);
+        if (children.length === 0 && !matches(task)) return [];
+        const unchanged = children.length === task.children.length && children.every((child, i) => child === task.children[i]);
+        return [unchanged ? task : { ...task, children }];
+    });
+    return prune(tasks);
+};
@@ -0,0 +1,38 @@
+import { Connections, Task, TaskTemplate, TimerState } from '../types';
+import { ClipboardData, cloneWithFreshIds, copySubtrees } from './clipboard';
+import { uncheckChecklist } from './markdown';
+
+// A template keeps what a checklist is made of: titles, types, priorities, tags, notes, habit
+// recurrence and timer durations. Progress is left behind — completion, ticked checklist boxes
+// in the notes, habit history, timer runs, pomodoro counts — and so are start and due dates,
+// which belong to one occurrence.
+const toBlueprint = (task: Task): Task => ({
+    id: task.id,
+    title: task.title,
+    type: task.type,
+    completed: false,
+    collapsed: task.collapsed,
+    children: task.children.map(toBlueprint),
+    timerState: TimerState.Idle,
+    ...(task.timerDuration !== undefined && { timerDuration: task.timerDuration, timerRemaining: task.timerDuration }),
+    ...(task.recurrence && { recurrence: task.recurrence }),
+    ...(task.priority && { priority: task.priority }),
+    ...(task.tags && { tags: task.tags }),
+    ...(task.notes && { notes: uncheckChecklist(task.notes) }),
+});
+
+export const createTemplate = (name: string, tasks: Task[], connections: Connections, now: number): TaskTemplate => ({
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    ...copySubtrees(tasks.map(toBlueprint), connections),
+});
+
+// Fresh tasks (and connections between them) ready to be inserted into the tree.
+export const instantiateTemplate = (template: TaskTemplate): ClipboardData =>
+    cloneWithFreshIds(template);
+
+export const countTemplateTasks = (template: TaskTemplate): number => {
+    const count = (tasks: Task[]): number => tasks.reduce((sum, task) => sum + 1 + count(task.children), 0);
+    return count(template.tasks);
+};
@@ -0,0 +1,121 @@
+import { PomodoroPhase, Task, TimerSession } from '../types';
+
+// Records the running stretch of a task's timer that ends at `end`. Pomodoro breaks are not
+// time spent on the task, so only work phases are logged. Returns null when there is nothing
+// worth logging.
+export const createSession = (task: Task, end: number, outcome: TimerSession['outcome']): TimerSession | null => {
+    if (task.timerStartedAt === undefined) return null;
+    if (task.pomodoro && task.pomodoro.phase !== PomodoroPhase.Work) return null;
+    const duration = Math.round((end - task.timerStartedAt) / 1000);
+    if (duration < 1) return null;
+    return {
+        // Deterministic so the same stretch is never logged twice.
+        id: `${task.id}-${task.timerStartedAt}`,
+        taskId: task.id,
+        start: task.timerStartedAt,
+        end,
+        duration,
+        outcome,
+    };
+};
+
+export const appendSessions = (log: TimerSession[], sessions: (TimerSession | null)[]): TimerSession[] => {
+    const existingIds = new Set(log.map(session => session.id));
+    const newSessions = sessions.filter((session): session is TimerSession => session !== null && !existingIds.has(session.id));
+    return newSessions.length > 0 ? [...log, ...newSessions] : log;
+};
+
+// Seconds tracked per task, with each parent's total including everything below it.
+export const computeTrackedTime = (tasks: Task[], log: TimerSession[]): Map<string, number> => {
+    const ownTime = new Map<string, number>();
+    log.forEach(session => ownTime.set(session.taskId, (ownTime.get(session.taskId) ?? 0) + session.duration));
+
+    const totals = new Map<string, number>();
+    const rollUp = (task: Task): number => {
+        const total = task.children.reduce((sum, child) => sum + rollUp(child), ownTime.get(task.id) ?? 0);
+        if (total > 0) totals.set(task.id, total);
+        return total;
+    };
+    tasks.forEach(rollUp);
+    return totals;
+};
+
+export const formatDuration = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m`;
+    return `${seconds}s`;
+};
+
+export type ReportGranularity = 'day' | 'week';
+
+export interface ReportRow {
+    rootId: string | null; // null for sessions of deleted tasks
+    title: string;
+    seconds: number;
+}
+
+export interface ReportPeriod {
+    start: number;
+    label: string;
+    total: number;
+    sessions: number;
+    rows: ReportRow[];
+}
+
+const startOfPeriod = (time: number, granularity: ReportGranularity): Date => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    if (granularity === 'week') {
+        // Weeks start on Monday.
+        date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    }
+    return date;
+};
+
+// Groups the log into the most recent `count` days or weeks, newest first, with time broken
+// down by top-level task (so a project's subtasks add up under the project).
+export const buildTimeReport = (tasks: Task[], log: TimerSession[], granularity: ReportGranularity, count: number, now: number): ReportPeriod[] => {
+    const rootOf = new Map<string, Task>();
+    const visit = (task: Task, root: Task) => {
+        rootOf.set(task.id, root);
+        task.children.forEach(child => visit(child, root));
+    };
+    tasks.forEach(task => visit(task, task));
+
+    const periods: ReportPeriod[] = [];
+    const current = startOfPeriod(now, granularity);
+    for (let i = 0; i < count; i++) {
+        const start = new Date(current);
+        start.setDate(current.getDate() - i * (granularity === 'week' ? 7 : 1));
+        periods.push({
+            start: start.getTime(),
+            label: granularity === 'week'
+                ? `Week of ${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+                : start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }),
+            total: 0,
+            sessions: 0,
+            rows: [],
+        });
+    }
+
+    const periodByStart = new Map(periods.map(period => [period.start, period]));
+    log.forEach(session => {
+        // A session counts towards the period it started in.
+        const period = periodByStart.get(startOfPeriod(session.start, granularity).getTime());
+        if (!period) return;
+        const root = rootOf.get(session.taskId);
+        const rootId = root?.id ?? null;
+        let row = period.rows.find(r => r.rootId === rootId);
+        if (!row) {
+            row = { rootId, title: root?.title ?? 'Deleted tasks', seconds: 0 };
+            period.rows.push(row);
+        }
+        row.seconds += session.duration;
+        period.total += session.duration;
+        period.sessions += 1;
+    });
+    periods.forEach(period => period.rows.sort((a, b) => b.seconds - a.seconds));
+    return periods;
+};
@@ -0,0 +1,115 @@
+import { Task, TimerState } from '../types';
+import { advancePomodoro } from './pomodoro';
+
+// A running timer is stored as the timestamp it ends at, so its remaining time is derived
+// from the clock instead of being decremented every tick. Paused and idle timers keep
+// their remaining seconds in `timerRemaining`.
+export const getTimerRemaining = (task: Task, now: number): number => {
+    if (task.timerState === TimerState.Running && task.timerDeadline !== undefined) {
+        return Math.max(0, Math.ceil((task.timerDeadline - now) / 1000));
+    }
+    return task.timerRemaining ?? 0;
+};
+
+export const startTimer = (task: Task, now: number, seconds: number = task.timerRemaining ?? task.timerDuration ?? 0): Task => ({
+    ...task,
+    timerRemaining: seconds,
+    timerDeadline: now + seconds * 1000,
+    timerStartedAt: now,
+    timerState: TimerState.Running,
+});
+
+export const pauseTimer = (task: Task, now: number): Task => ({
+    ...task,
+    timerRemaining: getTimerRemaining(task, now),
+    timerDeadline: undefined,
+    timerStartedAt: undefined,
+    timerState: TimerState.Paused,
+});
+
+// Timers run on the clock and their stretches are logged as they end, so bringing back an old
+// tree (undo, redo) must not bring back old timer states. Each task keeps the timer it has in
+// `current`; tasks missing from it come back paused.
+export const keepCurrentTimers = (tasks: Task[], current: Task[], now: number): Task[] => {
+    const currentById = new Map<string, Task>();
+    const index = (task: Task) => {
+        currentById.set(task.id, task);
+        task.children.forEach(index);
+    };
+    current.forEach(index);
+
+    const visit = (task: Task): Task => {
+        const live = currentById.get(task.id);
+        const children = task.children.map(visit);
+        if (!live) return task.timerState === TimerState.Running ? { ...pauseTimer(task, now), children } : { ...task, children };
+        return {
+            ...task,
+            children,
+            timerDuration: live.timerDuration,
+            timerRemaining: live.timerRemaining,
+            timerState: live.timerState,
+            timerDeadline: live.timerDeadline,
+            timerStartedAt: live.timerStartedAt,
+            pomodoro: live.pomodoro,
+            pomodoroCount: live.pomodoroCount,
+        };
+    };
+    return tasks.map(visit);
+};
+
+// Pauses every running timer in the tree. Also returns the running tasks as they were before
+// pausing, so the stretches they ran can be logged.
+export const pauseRunningTimers = (tasks: Task[], now: number): { tasks: Task[]; paused: Task[] } => {
+    const paused: Task[] = [];
+    const visit = (list: Task[]): Task[] => list.map(task => {
+        const children = visit(task.children);
+        if (task.timerState !== TimerState.Running) return children === task.children ? task : { ...task, children };
+        paused.push(task);
+        return { ...pauseTimer(task, now), children };
+    });
+    const pausedTasks = visit(tasks);
+    return { tasks: paused.length > 0 ? pausedTasks : tasks, paused };
+};
+
+// Marks running timers whose deadline has passed as finished (or moves a Pomodoro on to its
+// next phase), and gives running timers saved before deadlines existed one counted from now.
+// Returns the original array when nothing changed, plus the tasks whose timer just ran out,
+// as they were at that moment.
+export const syncTimers = (tasks: Task[], now: number): { tasks: Task[]; finished: Task[]; advanced: Task[] } => {
+    const finished: Task[] = [];
+    const advanced: Task[] = [];
+    const visit = (list: Task[]): Task[] => {
+        let changed = false;
+        const nextList = list.map(task => {
+            const children = visit(task.children);
+            let next = children === task.children ? task : { ...task, children };
+            if (next.timerState === TimerState.Running) {
+                if (next.timerDeadline === undefined) {
+                    next = startTimer(next, now);
+                } else if (next.timerDeadline <= now && next.pomodoro) {
+                    advanced.push(next);
+                    next = advancePomodoro(next, now);
+                } else if (next.timerDeadline <= now) {
+                    finished.push(next);
+                    next = { ...next, timerRemaining: 0, timerStartedAt: undefined, timerState: TimerState.Finished };
+                }
+            }
+            if (next !== task) changed = true;
+            return next;
+        });
+        return changed ? nextList : list;
+    };
+    return { tasks: visit(tasks), finished, advanced };
+};
+
+export const getNextTimerDeadline = (tasks: Task[]): number | null => {
+    let next: number | null = null;
+    const visit = (task: Task) => {
+        if (task.timerState === TimerState.Running && task.timerDeadline !== undefined) {
+            next = next === null ? task.timerDeadline : Math.min(next, task.timerDeadline);
+        }
+        task.children.forEach(visit);
+    };
+    tasks.forEach(visit);
+    return next;
+};
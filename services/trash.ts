@@ -0,0 +1,81 @@
+import { Connections, Task, TrashEntry } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const collectIds = (tasks: Task[], ids = new Set<string>()): Set<string> => {
+    tasks.forEach(task => {
+        ids.add(task.id);
+        collectIds(task.children, ids);
+    });
+    return ids;
+};
+
+const locate = (tasks: Task[], id: string, parentId: string | null = null): { parentId: string | null; position: number } | null => {
+    for (let i = 0; i < tasks.length; i++) {
+        if (tasks[i].id === id) return { parentId, position: i };
+        const found = locate(tasks[i].children, id, tasks[i].id);
+        if (found) return found;
+    }
+    return null;
+};
+
+const without = (tasks: Task[], id: string): Task[] =>
+    tasks.filter(task => task.id !== id).map(task => ({ ...task, children: without(task.children, id) }));
+
+// One entry per deleted subtree. Connections from tasks that stay behind are kept too, and come
+// back on restore as long as both ends still exist. Subtrees are taken out last to first, each
+// position counted in the tree left by the ones before, so restoring the entries from the top
+// of the list puts deleted siblings back in their old order.
+export const createTrashEntries = (tasks: Task[], deleted: Task[], connections: Connections, workspaceId: string, now: number): TrashEntry[] => {
+    let remaining = tasks;
+    const entries: TrashEntry[] = [];
+    [...deleted].reverse().forEach(task => {
+        const ids = collectIds([task]);
+        const touching: Connections = {};
+        Object.entries(connections).forEach(([sourceId, sourceConnections]) => {
+            const kept = ids.has(sourceId) ? sourceConnections : sourceConnections.filter(connection => ids.has(connection.targetId));
+            if (kept.length > 0) touching[sourceId] = kept;
+        });
+        const location = locate(remaining, task.id) ?? { parentId: null, position: remaining.length };
+        remaining = without(remaining, task.id);
+        entries.unshift({ id: crypto.randomUUID(), workspaceId, task, ...location, connections: touching, deletedAt: now });
+    });
+    return entries;
+};
+
+// Puts the subtree back under its old parent at its old position, or at the end of the top
+// level if the parent is gone.
+export const restoreFromTrash = (tasks: Task[], connections: Connections, entry: TrashEntry): { tasks: Task[]; connections: Connections } => {
+    const insert = (siblings: Task[]) => [...siblings.slice(0, entry.position), entry.task, ...siblings.slice(entry.position)];
+    const insertUnder = (list: Task[]): Task[] => list.map(task => task.id === entry.parentId
+        ? { ...task, children: insert(task.children) }
+        : { ...task, children: insertUnder(task.children) });
+
+    let restored: Task[];
+    if (entry.parentId === null) restored = insert(tasks);
+    else if (locate(tasks, entry.parentId)) restored = insertUnder(tasks);
+    else restored = [...tasks, entry.task];
+
+    const ids = collectIds(restored);
+    const merged: Connections = { ...connections };
+    Object.entries(entry.connections).forEach(([sourceId, sourceConnections]) => {
+        if (!ids.has(sourceId)) return;
+        const existing = merged[sourceId] ?? [];
+        const added = sourceConnections.filter(connection =>
+            ids.has(connection.targetId) && !existing.some(other => other.targetId === connection.targetId));
+        if (added.length > 0) merged[sourceId] = [...existing, ...added];
+    });
+    return { tasks: restored, connections: merged };
+};
+
+export const daysUntilPurge = (entry: TrashEntry, retentionDays: number, now: number): number =>
+    Math.max(0, Math.ceil((entry.deletedAt + retentionDays * DAY - now) / DAY));
+
+// Returns the same array when nothing has expired, so callers can skip a save.
+export const purgeTrash = (trash: TrashEntry[], retentionDays: number, now: number): TrashEntry[] => {
+    const kept = trash.filter(entry => now - entry.deletedAt < retentionDays * DAY);
+    return kept.length === trash.length ? trash : kept;
+};
+
+export const countTasks = (task: Task): number =>
+    1 + task.children.reduce((sum, child) => sum + countTasks(child), 0);
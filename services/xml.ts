@@ -0,0 +1,6 @@
+// Escapes text for XML element content and double-quoted attributes (OPML and SVG exports).
+export const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
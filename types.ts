@@ -3,6 +3,12 @@ export enum TaskType {
   Habit = 'habit',
 }
 
+export enum Priority {
+  Low = 'low',
+  Medium = 'medium',
+  High = 'high',
+}
+
 export enum TimerState {
   Idle = 'idle',
   Running = 'running',
@@ -10,6 +16,39 @@ export enum TimerState {
   Finished = 'finished',
 }
 
+export enum PomodoroPhase {
+  Work = 'work',
+  ShortBreak = 'shortBreak',
+  LongBreak = 'longBreak',
+}
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface Pomodoro {
+  settings: PomodoroSettings;
+  phase: PomodoroPhase;
+  cycle: number; // work phases finished since the last long break
+}
+
+export enum RecurrenceFrequency {
+  Daily = 'daily',
+  Weekly = 'weekly',
+  Interval = 'interval',
+  Monthly = 'monthly',
+}
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // 0 (Sunday) to 6, for weekly habits
+  interval?: number; // in days, for interval habits
+  anchorDate?: number; // timestamp the interval is counted from
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -18,8 +57,107 @@ export interface Task {
   collapsed: boolean;
   children: Task[];
   timerDuration?: number; // in seconds
-  timerRemaining?: number; // in seconds
+  timerRemaining?: number; // in seconds, as of the last start or pause
   timerState?: TimerState;
+  timerDeadline?: number; // timestamp a running timer ends at
+  timerStartedAt?: number; // timestamp the current running stretch began, for the time log
+  pomodoro?: Pomodoro; // set while the timer runs in Pomodoro mode
+  pomodoroCount?: number; // work phases completed, kept after leaving Pomodoro mode
+  recurrence?: Recurrence; // habits only, inherited by habit descendants
+  completedAt?: number; // timestamp of the last completion
+  completionLog?: string[]; // habits only, sorted "YYYY-MM-DD" days it was completed
+  startDate?: string; // "YYYY-MM-DD", or "YYYY-MM-DDTHH:mm" with a time (local)
+  dueDate?: string; // same format as startDate
+  priority?: Priority;
+  tags?: string[]; // e.g. "#work", "@home"
+  notes?: string; // Markdown
+  archivedAt?: number; // timestamp; archived tasks are hidden from every view but kept for history
+}
+
+export interface TimerSession {
+  id: string;
+  taskId: string;
+  start: number; // timestamp
+  end: number; // timestamp
+  duration: number; // seconds actually run
+  outcome: 'finished' | 'interrupted';
+}
+
+export interface TaskFilter {
+  query: string;
+  type: TaskType | 'all';
+  status: 'all' | 'open' | 'completed' | 'ready'; // ready: open, unblocked and started
+  runningTimer: boolean;
+}
+
+export interface TagFilter {
+  tags: string[]; // a task must carry all of them
+  priority: Priority | 'all';
+}
+
+export enum ConnectionType {
+  RelatesTo = 'relates',
+  Follows = 'follows',
+  Blocks = 'blocks', // the source has to be done before the target can be
 }
 
-export type ViewMode = 'list' | 'mindmap';
\ No newline at end of file
+export interface Connection {
+  targetId: string;
+  type: ConnectionType;
+  label?: string;
+}
+
+export type Connections = { [sourceId: string]: Connection[] };
+
+// A reusable subtree. Its tasks keep their original ids; instantiating gives them fresh ones.
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  createdAt: number; // timestamp
+  tasks: Task[];
+  connections: Connections; // only those between the template's own tasks
+}
+
+export type ViewMode = 'list' | 'mindmap' | 'report' | 'today';
+
+export type ExportFormat = 'json' | 'markdown' | 'opml';
+
+export type MindmapLayout = 'horizontal' | 'vertical' | 'radial' | 'compact';
+
+// A deleted subtree, kept until it is restored or purged.
+export interface TrashEntry {
+  id: string;
+  workspaceId: string;
+  task: Task;
+  parentId: string | null; // where it was, to put it back in the same place
+  position: number;
+  connections: Connections; // every connection that touched the subtree
+  deletedAt: number; // timestamp
+}
+
+export interface MindmapTransform {
+  x: number; // pan offset in screen pixels
+  y: number;
+  scale: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  viewMode: ViewMode;
+  // Only kept here while the workspace is inactive; the active tree is stored as `tasks` and `connections`.
+  tasks?: Task[];
+  connections?: Connections;
+}
+
+export interface WorkspaceState {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+export interface AppSettings {
+  viewMode: ViewMode;
+  mindmapLayout: MindmapLayout;
+  inheritTags: boolean; // tags also apply to every descendant
+  trashRetentionDays: number;
+}